@@ -1,5 +1,3 @@
-const Readable = require('stream').Readable;
-
 export type TypedResponse<T = unknown> = Omit<Response, 'json'> & {
   json(): Promise<T>;
 };
@@ -8,13 +6,841 @@ export type TypedResponse<T = unknown> = Omit<Response, 'json'> & {
 // type ThenableTypedResponse<T = unknown> = TypedResponse<T> &
 //  PromiseLike<TypedResponse<T>>;
 
-export type ResponseFunction = <Data extends Record<string, any>>(
+type JsonPrimitive = string | number | boolean | null;
+type NotJsonable = ((...args: any[]) => any) | symbol | undefined;
+type JsonifyElement<T> = T extends NotJsonable ? null : Jsonify<T>;
+
+/**
+ * The type of a value after it has been serialized with
+ * `JSON.stringify` and parsed with `JSON.parse`.
+ */
+export type Jsonify<T> = 0 extends 1 & T
+  ? any
+  : T extends { toJSON(): infer U }
+  ? U extends JsonPrimitive
+    ? U
+    : Jsonify<U>
+  : T extends JsonPrimitive
+  ? T
+  : T extends NotJsonable | bigint
+  ? never
+  : T extends Map<any, any> | Set<any>
+  ? {}
+  : T extends readonly (infer U)[]
+  ? JsonifyElement<U>[]
+  : T extends object
+  ? { [K in keyof T as K extends symbol ? never : T[K] extends NotJsonable ? never : K]: Jsonify<T[K]> }
+  : never;
+
+declare const encodedType: unique symbol;
+
+/**
+ * A value encoded by a `TypedSerializer`. Use `parse` to get the
+ * original value back.
+ */
+export type Encoded<T> = { readonly [encodedType]: T };
+
+export type Replacer = (key: string, value: any) => any;
+
+export type Serializer = {
+  /**
+   * Serializes the response body. The `replacer` must be used for
+   * `Error` instances so rejected promises are serialized consistently.
+   */
+  stringify(value: unknown, replacer: Replacer): string;
+  /**
+   * The `Content-Type` of the serialized body. Defaults to
+   * `application/json; charset=utf-8`.
+   */
+  contentType?: string;
+};
+
+/**
+ * Renders the resolved data for a negotiated media type. Thrown
+ * responses and rejected promises are still serialized as JSON so the
+ * ErrorBoundary gets the same settled object as the other helpers.
+ */
+export type Renderer = ((data: any) => string) | Serializer;
+
+export type TypedSerializer = Serializer & {
+  parse<T>(value: string | Encoded<T>): T;
+};
+
+export type SerializerType<T = any> = {
+  test(value: unknown): value is T;
+  encode(value: T): unknown;
+  decode(value: any): T;
+};
+
+export type ProblemDetails = {
+  /** A URI reference that identifies the problem type. Defaults to `about:blank`. */
+  type?: string;
+  /** A short summary of the problem type. Defaults to the status text. */
+  title?: string;
+  /** A human-readable explanation specific to this occurrence of the problem. */
+  detail?: string;
+  /** A URI reference that identifies this occurrence of the problem. */
+  instance?: string;
+};
+
+export type CacheControl = {
+  /** `max-age`, in seconds. */
+  maxAge?: number;
+  /** `s-maxage`, in seconds. Only applies to shared caches like CDNs. */
+  sMaxAge?: number;
+  /** `stale-while-revalidate`, in seconds. */
+  staleWhileRevalidate?: number;
+  /** `stale-if-error`, in seconds. */
+  staleIfError?: number;
+  public?: boolean;
+  private?: boolean;
+  noCache?: boolean;
+  noStore?: boolean;
+  noTransform?: boolean;
+  mustRevalidate?: boolean;
+  proxyRevalidate?: boolean;
+  immutable?: boolean;
+  /** Headers that are added to the `Vary` header. */
+  vary?: string | string[];
+};
+
+export type CachePreset = keyof typeof CACHE_PRESETS;
+
+/**
+ * Controls how `Error`s are serialized in response bodies.
+ *
+ * - `default` sends the `message` and `name`.
+ * - `production` replaces the `message` with a generic message and a
+ *   `correlationId` that can be matched with the server logs.
+ * - `development` also sends the `stack`, `code`, `cause` chain and any
+ *   custom fields of the error.
+ */
+export type ErrorPolicy = {
+  mode?: 'default' | 'production' | 'development';
+  /**
+   * Serializes domain errors. Return `undefined` to use the `mode`.
+   */
+  map?: (error: Error) => Record<string, unknown> | undefined;
+  /**
+   * The message sent in production mode. Defaults to `Internal Server Error`.
+   */
+  message?: string;
+  /**
+   * Creates the correlation id in production mode. Defaults to a random UUID.
+   */
+  correlationId?: (error: Error) => string;
+  /**
+   * Called in production mode with each redacted error and its
+   * correlation id, usually to log the original error.
+   */
+  onRedact?: (error: Error, correlationId: string) => void;
+};
+
+export type ResponseOptions = {
+  /**
+   * Controls how `Error`s are serialized. Defaults to sending the
+   * `message` and `name`.
+   */
+  errorPolicy?: ErrorPolicy['mode'] | ErrorPolicy;
+  /**
+   * Sets the `Cache-Control` and `Vary` headers from typed directives
+   * or a named preset.
+   */
+  cache?: CachePreset | CacheControl;
+  /**
+   * Serializes the response body. Defaults to `JSON.stringify`.
+   */
+  serializer?: Serializer;
+  /**
+   * Stream the response using the Remix `defer` wire format. Values
+   * that are not promises are sent immediately and each promise is
+   * sent as a separate chunk once it settles. Remix only decodes the
+   * stream for client-side navigations and fetchers; server rendered
+   * requests need Remix's own `defer`.
+   */
+  deferred?: boolean;
+  /**
+   * Send an RFC 7807 `application/problem+json` body. The `data` keys
+   * are sent as extension members alongside the problem details.
+   */
+  problem?: true | ProblemDetails;
+  /**
+   * The incoming request. When given with `etag` or `lastModified`
+   * the conditional request headers are evaluated and a `304` or
+   * `412` is sent instead of the body when they match.
+   */
+  request?: Request;
+  /**
+   * Sends an `ETag` header. `true` or `'strong'` computes a strong
+   * ETag from the serialized body and `'weak'` computes a weak one.
+   * Any other string is used as the ETag.
+   */
+  etag?: boolean | 'strong' | 'weak' | string;
+  /**
+   * Sends a `Last-Modified` header.
+   */
+  lastModified?: Date | string | number;
+  /**
+   * The number of milliseconds to wait for each promise in `data`.
+   * Promises that take longer reject with a `TimeoutError`.
+   */
+  timeout?: number;
+  /**
+   * Used in place of any promise in `data` that rejects or times out.
+   * Returned responses list the keys that used their fallback in an
+   * `X-Degraded-Keys` header. Thrown responses send their headers
+   * before the promises settle, so they don't have the header.
+   */
+  fallback?: unknown;
+  /**
+   * The `timeout` and `fallback` for individual keys of `data`.
+   */
+  keys?: Record<string, KeyOptions>;
+  /**
+   * Resolves promises nested at any depth in the plain objects and
+   * arrays of `data`, not just the top level values.
+   */
+  deep?: boolean;
+  /**
+   * Stops waiting for the promises in `data` when aborted. Pending
+   * promises use their `fallback` or reject with the abort reason.
+   */
+  signal?: AbortSignal;
+  /**
+   * Called with each promise in `data` that rejects or times out,
+   * including the ones replaced by a `fallback`.
+   */
+  onError?: (error: unknown, key: string) => void;
+  /**
+   * Cookies to set on the response. Each cookie is appended as its
+   * own `Set-Cookie` header.
+   */
+  cookies?: Cookie[];
+  /**
+   * Compresses the body with the best encoding in the `Accept-Encoding`
+   * header of the `request`. Bodies smaller than the `threshold` are
+   * sent uncompressed.
+   */
+  compress?: boolean | CompressOptions;
+  /**
+   * Validates the resolved data before it is serialized. The output of
+   * the schema is sent, so schemas that strip unknown keys remove
+   * them from the response. Invalid data is never sent, and the
+   * fulfilled values of thrown and rejected responses are only sent
+   * when every key fulfilled and the data is valid. Cannot be used
+   * with `deferred`.
+   */
+  schema?: StandardSchema<any, any>;
+  /**
+   * What to do when the data has keys the `schema` removed. `throw`
+   * rejects with a `ResponseSchemaError`, `log` and `warn` print the
+   * removed keys and send the output of the schema, and `strip` sends
+   * it silently. Invalid data always rejects. Defaults to `strip` when `NODE_ENV` is
+   * `production` and `throw` otherwise.
+   */
+  onSchemaMismatch?: 'throw' | 'log' | 'warn' | 'strip';
+  /**
+   * Sends a `Retry-After` header with the number of seconds to wait
+   * or the date to retry at. Usually used with `tooManyRequests` and
+   * `serviceUnavailable`.
+   */
+  retryAfter?: number | Date;
+  /**
+   * Sends the IETF `RateLimit` headers.
+   */
+  rateLimit?: RateLimit;
+  /**
+   * Sends a `Server-Timing` header with how long each promise in
+   * `data` took to settle, or only the keys in the list, since the
+   * header is visible to anyone who can see the response. Only the
+   * buffered response has the header, because thrown and deferred
+   * responses send their headers first.
+   */
+  timing?: boolean | string[];
+  /**
+   * Called when each promise in `data` settles, with the result and
+   * the number of milliseconds it took.
+   */
+  onSettled?: (key: string, result: SettledTiming) => void;
+};
+
+/**
+ * The result of a promise in `data` and how long it took to settle,
+ * measured from when the response was created.
+ */
+export type SettledTiming = ({ status: 'fulfilled'; value: unknown } | { status: 'rejected'; reason: unknown }) & {
+  duration: number;
+};
+
+export type RateLimit = {
+  /** The number of requests allowed in the window. */
+  limit: number;
+  /** The number of requests left in the window. */
+  remaining: number;
+  /** The number of seconds until the quota resets, or the date it resets. */
+  reset: number | Date;
+  /** The length of the window in seconds, sent in `RateLimit-Policy`. */
+  window?: number;
+  /**
+   * `separate` sends `RateLimit-Limit`, `RateLimit-Remaining` and
+   * `RateLimit-Reset`. `combined` sends `RateLimit` and
+   * `RateLimit-Policy` from the later drafts. Defaults to `separate`.
+   */
+  format?: 'separate' | 'combined';
+  /** The name of the policy in the `combined` format. Defaults to `default`. */
+  policy?: string;
+};
+
+export type ContentEncoding = 'br' | 'gzip' | 'deflate';
+
+/**
+ * A stream that compresses the bytes written to it, like a
+ * `CompressionStream`.
+ */
+export type Compressor = {
+  readable: ReadableStream<Uint8Array>;
+  writable: WritableStream<Uint8Array>;
+};
+
+export type CompressOptions = {
+  /** The smallest body in bytes to compress. Defaults to 1024. */
+  threshold?: number;
+  /**
+   * The encodings to use in order of preference. Defaults to `br`,
+   * `gzip` and `deflate`. `gzip` and `deflate` use `CompressionStream`
+   * and `br` is only used when there is a `brotli` compressor.
+   */
+  encodings?: ContentEncoding[];
+  /**
+   * Creates a brotli compressor for each response. Runtimes don't
+   * have one built in, so use `brotli` from `remix-response/node`.
+   */
+  brotli?: () => Compressor;
+};
+
+export type Cookie = {
+  name: string;
+  value: string;
+  domain?: string;
+  /** Defaults to `/`. */
+  path?: string;
+  expires?: Date;
+  /** The number of seconds until the cookie expires. */
+  maxAge?: number;
+  httpOnly?: boolean;
+  /** Required when `sameSite` is `None` or `partitioned` is set. */
+  secure?: boolean;
+  sameSite?: 'Strict' | 'Lax' | 'None';
+  /** Stores the cookie separately for each top-level site (CHIPS). */
+  partitioned?: boolean;
+};
+
+export type KeyOptions = {
+  timeout?: number;
+  fallback?: unknown;
+};
+
+type Init = Omit<ResponseInit, 'status'> & ResponseOptions;
+
+type NotTraversed = ((...args: any[]) => any) | Date | RegExp | Map<any, any> | Set<any> | Error;
+
+/**
+ * Recursively unwraps the promises in plain objects and arrays.
+ */
+export type DeepAwaited<T> = T extends PromiseLike<infer U>
+  ? DeepAwaited<U>
+  : T extends NotTraversed
+  ? T
+  : T extends object
+  ? { -readonly [K in keyof T]: DeepAwaited<T[K]> }
+  : T;
+
+type Resolved<Data, Fallback = never, Deep = false> = {
+  -readonly [P in keyof Data]:
+    | (Deep extends true ? DeepAwaited<Data[P]> : Awaited<Data[P]>)
+    | (Data[P] extends PromiseLike<any> ? Fallback : never);
+};
+
+type ResolvedOf<Data, I> = Resolved<
+  Data,
+  I extends { fallback: infer F } ? F : never,
+  I extends { deep: true } ? true : false
+>;
+
+type Validated<Data, I> = I extends { schema: StandardSchema<any, infer Output> } ? Output : ResolvedOf<Data, I>;
+
+type Serialized<T, I> = I extends { serializer: TypedSerializer } ? Encoded<T> : Jsonify<T>;
+
+/**
+ * The type of the response body for the given `data` and `init`.
+ */
+export type ResponseBody<Data, I = {}> = I extends { deferred: true }
+  ? { -readonly [P in keyof Data]: Data[P] }
+  : Serialized<
+      I extends { problem: true | ProblemDetails }
+        ? Validated<Data, I> & Required<Pick<ProblemDetails, 'type' | 'title'>> & ProblemDetails & { status: number }
+        : Validated<Data, I>,
+      I
+    >;
+
+/**
+ * A helper that creates a response from `data`. `Defaults` are the
+ * options the helper was created with by `createResponseHelpers`.
+ */
+export type ResponseFunction<Defaults = {}> = <Data extends Record<string, any>, I extends Init = {}>(
   data: Data,
-  init?: Omit<ResponseInit, 'status'>
-) => TypedResponse<{ -readonly [P in keyof Data]: Awaited<Data[P]> }>;
+  init?: I
+) => TypedResponse<ResponseBody<Data, Omit<Defaults, keyof I> & I>>;
+
+export type RedirectOptions = {
+  /**
+   * Relative urls are resolved against this url. When given a
+   * `Request`, the request's url is used. Urls on the same host as
+   * the base are always allowed.
+   */
+  base?: string | URL | Request;
+  /**
+   * The hosts that absolute and protocol-relative urls may redirect
+   * to. A leading `*.` allows every subdomain.
+   */
+  allowedHosts?: string[];
+  /**
+   * The url to redirect to when `url` is not allowed. When not given,
+   * a `TypeError` is thrown instead.
+   */
+  fallback?: string;
+};
+
+export type FlashOptions = {
+  /**
+   * The secrets used to sign the flash cookie. The first secret signs
+   * new cookies and every secret is tried when reading one, so
+   * secrets can be rotated by adding a new secret to the front.
+   */
+  secrets: string[];
+  /**
+   * The name of the flash cookie. Defaults to `__flash`.
+   */
+  name?: string;
+  /**
+   * The path of the flash cookie. Defaults to `/`.
+   */
+  path?: string;
+};
+
+export type Flash = FlashOptions & {
+  /**
+   * The message for the next request. It is serialized with
+   * `JSON.stringify`.
+   */
+  message: unknown;
+};
+
+export type RedirectInit = Omit<ResponseInit, 'status'> &
+  RedirectOptions &
+  Pick<ResponseOptions, 'cache'> & {
+    /**
+     * Sets a signed cookie with a message for the next request. Read
+     * it with `readFlash`. Signing is async, so the redirect returns a
+     * promise for the response. Remix awaits returned promises, but
+     * thrown ones must be awaited first, e.g.
+     * `throw await seeOther(url, { flash })`.
+     */
+    flash?: Flash;
+    /** Cookies to set on the response. */
+    cookies?: Cookie[];
+  };
+
+/**
+ * Creates a redirect to `url`. When `base`, `allowedHosts` or
+ * `fallback` are given, the url is only used if it is an `http:` or
+ * `https:` url on an allowed host. Any other `init` still rejects
+ * `javascript:`, `data:` and `vbscript:` urls. With a `flash` message
+ * it returns a promise for the response.
+ */
+export type RedirectFunction = {
+  (url: string, init: RedirectInit & { flash: Flash }): Promise<Response>;
+  (url: string, init?: RedirectInit): Response;
+};
+
+export type EmptyFunction = (init?: Init) => Response;
+
+type Data = Record<string, any>;
+
+export type ValidationIssue = {
+  /**
+   * The path to the invalid field. Path segments may be keys or
+   * objects with a `key`, like the issues from Valibot and Standard
+   * Schema.
+   */
+  path?: ReadonlyArray<PropertyKey | { key: PropertyKey }>;
+  message: string;
+};
+
+export type StandardSchemaResult<Output> =
+  | { value: Output; issues?: undefined }
+  | { issues: ReadonlyArray<ValidationIssue> };
+
+/**
+ * A validator that implements the [Standard
+ * Schema](https://standardschema.dev) interface, like the schemas from
+ * Zod, Valibot and ArkType.
+ */
+export type StandardSchema<Input = unknown, Output = Input> = {
+  readonly '~standard': {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (value: unknown) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>;
+    readonly types?: { readonly input: Input; readonly output: Output };
+  };
+};
+
+/**
+ * Converts the error object from a schema library into a list of
+ * issues.
+ */
+export type ValidationAdapter<E = any> = (error: E) => ReadonlyArray<ValidationIssue>;
+
+/**
+ * Errors keyed by the dot separated path of the invalid field. Issues
+ * without a path are added to `formErrors`.
+ */
+export type ValidationErrors<Field extends string = string> = {
+  formErrors: string[];
+  fieldErrors: Partial<Record<Field, string[]>>;
+};
+
+// Zod errors know the name of each top level field. Nested fields
+// are keyed by their dot separated path.
+type ValidationFields<E> = E extends { flatten(): { fieldErrors: infer F } }
+  ? Extract<keyof F, string> | `${Extract<keyof F, string>}.${string}`
+  : string;
+
+/**
+ * The type of `validationError`. `Defaults` are the options the helper
+ * was created with by `createResponseHelpers`.
+ */
+export type ValidationErrorFunction<Defaults = {}> = ReturnType<typeof validationErrorFor<Defaults>>;
+
+/**
+ * An `Error` as it is serialized in a response body.
+ */
+export type SerializedError = {
+  message: string;
+  name: string;
+  isError: true;
+  [key: string]: unknown;
+};
+
+export type SettledResult<T> =
+  | { status: 'fulfilled'; value: T }
+  | { status: 'rejected'; reason: SerializedError | unknown };
+
+/**
+ * The body of a thrown response, or of a response with a rejected
+ * promise. Each key has the same shape as a `Promise.allSettled`
+ * result.
+ */
+export type SettledData<T = Record<string, unknown>> = {
+  -readonly [P in keyof T]: SettledResult<Jsonify<Awaited<T[P]>>>;
+};
+
+/**
+ * The fulfilled values and the rejection reasons of `SettledData`,
+ * with serialized errors rebuilt into `Error` instances.
+ */
+export type UnwrappedSettledData<T = Record<string, unknown>> = {
+  values: { -readonly [P in keyof T]?: Jsonify<Awaited<T[P]>> };
+  errors: { -readonly [P in keyof T]?: Error | unknown };
+};
+
+export type ServerSentEvent = {
+  /** The event name. Clients receive unnamed events as `message`. */
+  event?: string;
+  id?: string | number;
+  /** The reconnection time in milliseconds. */
+  retry?: number;
+  comment?: string;
+  /** Strings are sent as is, other values are serialized as JSON. */
+  data?: unknown;
+};
+
+export type EventStreamSubscribe = (send: (event: ServerSentEvent) => void, close: () => void) => void | (() => void);
+
+export type EventStreamInit = Omit<ResponseInit, 'status'> & {
+  /** Controls how `Error`s in event data are serialized. */
+  errorPolicy?: ResponseOptions['errorPolicy'];
+  /** Closes the stream when aborted, usually `request.signal`. */
+  signal?: AbortSignal;
+  /** Sends a comment every `heartbeat` milliseconds to keep the connection open. */
+  heartbeat?: number;
+  /** The reconnection time in milliseconds sent at the start of the stream. */
+  retry?: number;
+  /** Cookies to set on the response. */
+  cookies?: Cookie[];
+  /** Sets the `Cache-Control` and `Vary` headers. Defaults to `no-cache`. */
+  cache?: ResponseOptions['cache'];
+};
+
+type PaginationBase = {
+  perPage: number;
+  /** The number of items in the whole collection, when it is known. */
+  total?: number;
+  /**
+   * The url the `Link` headers are built from, usually the request.
+   * Its other search params are kept.
+   */
+  baseUrl: string | URL | Request;
+  /** The names of the search params. Defaults to `page`, `perPage` and `cursor`. */
+  params?: { page?: string; perPage?: string; cursor?: string };
+  /**
+   * Responds with `206` and a `Content-Range` of the items, like
+   * `items 0-19/100`, when a numbered page with a known `total` isn't
+   * the whole collection.
+   */
+  partialContent?: boolean;
+};
+
+export type OffsetPagination = PaginationBase & {
+  /** The current page, starting at 1. */
+  page: number;
+  /** Whether there is a next page when the `total` isn't known. */
+  hasNextPage?: boolean;
+};
+
+export type CursorPagination = PaginationBase & {
+  /** The cursor of the current page. */
+  cursor?: string | null;
+  nextCursor?: string | null;
+  prevCursor?: string | null;
+};
+
+export type Pagination = OffsetPagination | CursorPagination;
+
+export type PageInfo = {
+  perPage: number;
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+  total?: number;
+  page?: number;
+  totalPages?: number;
+  cursor?: string | null;
+  nextCursor?: string | null;
+  prevCursor?: string | null;
+};
+
+export type NdjsonInit = Omit<ResponseInit, 'status'> &
+  Pick<ResponseOptions, 'serializer' | 'errorPolicy' | 'cache' | 'cookies'> & {
+    /** Stops reading the source when aborted, usually `request.signal`. */
+    signal?: AbortSignal;
+  };
+
+/**
+ * A file that can be read from any position, like a file on disk.
+ * `openFile` from `remix-response/node` opens one from a path.
+ */
+export type RandomAccessFile = {
+  /** The size of the file in bytes. */
+  size: number;
+  /** Streams the bytes from `start` up to, but not including, `end`. */
+  read: (start: number, end: number) => ReadableStream<Uint8Array>;
+  name?: string;
+  type?: string;
+  lastModified?: number;
+};
+
+/**
+ * The contents of a file, a `RandomAccessFile`, or a stream. Node
+ * streams are async iterables. Ranges are only supported when the size
+ * is known, so streams are always sent whole.
+ */
+export type FileSource = Blob | Uint8Array | RandomAccessFile | ReadableStream<Uint8Array> | AsyncIterable<Uint8Array>;
+
+export type FileInit = Omit<ResponseInit, 'status'> &
+  Pick<ResponseOptions, 'cache' | 'cookies' | 'lastModified'> & {
+    /**
+     * The incoming request. When given, `Range` and the conditional
+     * request headers are evaluated.
+     */
+    request?: Request;
+    /**
+     * The name of the file in the `Content-Disposition` header.
+     * Defaults to the name of the `File` or `RandomAccessFile`.
+     */
+    filename?: string;
+    /**
+     * Defaults to the type of the `Blob`, or the type for the extension
+     * of the filename.
+     */
+    contentType?: string;
+    /** Sends an `ETag` header. */
+    etag?: string;
+  };
+
+const DEFERRED_VALUE_PLACEHOLDER_PREFIX = '__deferred_promise:';
+const JSON_CONTENT_TYPE = 'application/json; charset=utf-8';
+const DEFERRED_CONTENT_TYPE = 'text/remix-deferred; charset=utf-8';
+const EVENT_STREAM_CONTENT_TYPE = 'text/event-stream; charset=utf-8';
+const PROBLEM_CONTENT_TYPE = 'application/problem+json; charset=utf-8';
+const NDJSON_CONTENT_TYPE = 'application/x-ndjson; charset=utf-8';
+
+export type StatusCode = keyof typeof STATUSES;
+
+type StatusFunctions<Defaults> = {
+  body: ResponseFunction<Defaults>;
+  redirect: RedirectFunction;
+  empty: EmptyFunction;
+};
+
+/**
+ * The type of the helper for a status code, e.g. `RedirectFunction`
+ * for `302`.
+ */
+export type StatusFunction<
+  Code extends StatusCode,
+  Defaults = {}
+> = StatusFunctions<Defaults>[(typeof STATUSES)[Code]['kind']];
+
+export type StatusName = (typeof STATUSES)[StatusCode]['name'];
+
+type StatusCodeOf<Name extends StatusName> = {
+  [Code in StatusCode]: (typeof STATUSES)[Code]['name'] extends Name ? Code : never;
+}[StatusCode];
+
+export type ResponseHelpersConfig = Init & {
+  /**
+   * Called with every `Response` created by the helpers. Awaiting a
+   * response helper creates a second `Response` once the data has
+   * resolved, so this is called for both.
+   */
+  onResponse?: (response: Response) => void;
+};
+
+/**
+ * The helpers returned by `createResponseHelpers`.
+ */
+export type ResponseHelpers<Defaults = {}> = {
+  [Name in StatusName]: StatusFunction<StatusCodeOf<Name>, Defaults>;
+} & {
+  status: <Code extends StatusCode>(code: Code) => StatusFunction<Code, Defaults>;
+  negotiate: typeof negotiate;
+  validationError: ValidationErrorFunction<Defaults>;
+  paginated: typeof paginated;
+  eventStream: typeof eventStream;
+  ndjson: typeof ndjson;
+  file: typeof file;
+  download: typeof download;
+};
+
+type MediaRange = { type: string; subtype: string; q: number };
+
+const parseAccept = (accept: string): MediaRange[] => {
+  return accept.split(',').flatMap(part => {
+    const [range, ...params] = part.trim().split(';');
+    const [type, subtype] = range.trim().toLowerCase().split('/');
+    if (!type || !subtype) {
+      return [];
+    }
+    const qParam = params.map(param => param.trim().split('=')).find(([name]) => name.toLowerCase() === 'q');
+    const q = qParam ? parseFloat(qParam[1]) : 1;
+    return [{ type, subtype, q: isNaN(q) ? 1 : q }];
+  });
+};
+
+// The quality of a media type is taken from the most specific range
+// that matches it, so `text/*;q=0.5, text/csv` prefers `text/csv`.
+const mediaTypeQuality = (ranges: MediaRange[], mediaType: string) => {
+  const [type, subtype] = mediaType.toLowerCase().split(';')[0].trim().split('/');
+  let quality = 0;
+  let specificity = -1;
+  for (const range of ranges) {
+    const matches = (range.type === '*' || range.type === type) && (range.subtype === '*' || range.subtype === subtype);
+    const rangeSpecificity = (range.type === '*' ? 0 : 1) + (range.subtype === '*' ? 0 : 1);
+    if (matches && rangeSpecificity > specificity) {
+      quality = range.q;
+      specificity = rangeSpecificity;
+    }
+  }
+  return quality;
+};
+
+const isValidationIssueList = (value: any): value is ReadonlyArray<ValidationIssue> => {
+  return Array.isArray(value) && value.every(issue => typeof issue?.message === 'string');
+};
+
+const issuePath = (path: ValidationIssue['path'] = []) => {
+  return path.map(segment => String(typeof segment === 'object' ? segment.key : segment)).join('.');
+};
 
-type Init = Parameters<ResponseFunction>[1];
-type Data = Parameters<ResponseFunction>[0];
+/**
+ * Every status code registered with IANA that can be sent with a
+ * `Response`, with the name and kind of the helper that creates it. Informational
+ * `1XX` responses can't be created with the `Response` constructor
+ * and `305 Use Proxy` is deprecated, so they are left out.
+ */
+const STATUSES = {
+  200: { name: 'ok', text: 'OK', kind: 'body' },
+  201: { name: 'created', text: 'Created', kind: 'body' },
+  202: { name: 'accepted', text: 'Accepted', kind: 'body' },
+  203: { name: 'nonAuthoritativeInformation', text: 'Non-Authoritative Information', kind: 'body' },
+  204: { name: 'noContent', text: 'No Content', kind: 'empty' },
+  205: { name: 'resetContent', text: 'Reset Content', kind: 'empty' },
+  206: { name: 'partialContent', text: 'Partial Content', kind: 'body' },
+  207: { name: 'multiStatus', text: 'Multi-Status', kind: 'body' },
+  208: { name: 'alreadyReported', text: 'Already Reported', kind: 'body' },
+  226: { name: 'imUsed', text: 'IM Used', kind: 'body' },
+  300: { name: 'multipleChoices', text: 'Multiple Choices', kind: 'body' },
+  301: { name: 'movedPermanently', text: 'Moved Permanently', kind: 'redirect' },
+  302: { name: 'found', text: 'Found', kind: 'redirect' },
+  303: { name: 'seeOther', text: 'See Other', kind: 'redirect' },
+  304: { name: 'notModified', text: 'Not Modified', kind: 'empty' },
+  307: { name: 'temporaryRedirect', text: 'Temporary Redirect', kind: 'redirect' },
+  308: { name: 'permanentRedirect', text: 'Permanent Redirect', kind: 'redirect' },
+  400: { name: 'badRequest', text: 'Bad Request', kind: 'body' },
+  401: { name: 'unauthorized', text: 'Unauthorized', kind: 'body' },
+  402: { name: 'paymentRequired', text: 'Payment Required', kind: 'body' },
+  403: { name: 'forbidden', text: 'Forbidden', kind: 'body' },
+  404: { name: 'notFound', text: 'Not Found', kind: 'body' },
+  405: { name: 'methodNotAllowed', text: 'Method Not Allowed', kind: 'body' },
+  406: { name: 'notAcceptable', text: 'Not Acceptable', kind: 'body' },
+  407: { name: 'proxyAuthenticationRequired', text: 'Proxy Authentication Required', kind: 'body' },
+  408: { name: 'requestTimeout', text: 'Request Timeout', kind: 'body' },
+  409: { name: 'conflict', text: 'Conflict', kind: 'body' },
+  410: { name: 'gone', text: 'Gone', kind: 'body' },
+  411: { name: 'lengthRequired', text: 'Length Required', kind: 'body' },
+  412: { name: 'preconditionFailed', text: 'Precondition Failed', kind: 'body' },
+  413: { name: 'contentTooLarge', text: 'Content Too Large', kind: 'body' },
+  414: { name: 'uriTooLong', text: 'URI Too Long', kind: 'body' },
+  415: { name: 'unsupportedMediaType', text: 'Unsupported Media Type', kind: 'body' },
+  416: { name: 'rangeNotSatisfiable', text: 'Range Not Satisfiable', kind: 'body' },
+  417: { name: 'expectationFailed', text: 'Expectation Failed', kind: 'body' },
+  418: { name: 'teapot', text: "I'm a teapot", kind: 'body' },
+  421: { name: 'misdirectedRequest', text: 'Misdirected Request', kind: 'body' },
+  422: { name: 'unprocessableEntity', text: 'Unprocessable Content', kind: 'body' },
+  423: { name: 'locked', text: 'Locked', kind: 'body' },
+  424: { name: 'failedDependency', text: 'Failed Dependency', kind: 'body' },
+  425: { name: 'tooEarly', text: 'Too Early', kind: 'body' },
+  426: { name: 'upgradeRequired', text: 'Upgrade Required', kind: 'body' },
+  428: { name: 'preconditionRequired', text: 'Precondition Required', kind: 'body' },
+  429: { name: 'tooManyRequests', text: 'Too Many Requests', kind: 'body' },
+  431: { name: 'requestHeaderFieldsTooLarge', text: 'Request Header Fields Too Large', kind: 'body' },
+  451: { name: 'unavailableForLegalReasons', text: 'Unavailable For Legal Reasons', kind: 'body' },
+  500: { name: 'serverError', text: 'Internal Server Error', kind: 'body' },
+  501: { name: 'notImplemented', text: 'Not Implemented', kind: 'body' },
+  502: { name: 'badGateway', text: 'Bad Gateway', kind: 'body' },
+  503: { name: 'serviceUnavailable', text: 'Service Unavailable', kind: 'body' },
+  504: { name: 'gatewayTimeout', text: 'Gateway Timeout', kind: 'body' },
+  505: { name: 'httpVersionNotSupported', text: 'HTTP Version Not Supported', kind: 'body' },
+  506: { name: 'variantAlsoNegotiates', text: 'Variant Also Negotiates', kind: 'body' },
+  507: { name: 'insufficientStorage', text: 'Insufficient Storage', kind: 'body' },
+  508: { name: 'loopDetected', text: 'Loop Detected', kind: 'body' },
+  510: { name: 'notExtended', text: 'Not Extended', kind: 'body' },
+  511: { name: 'networkAuthenticationRequired', text: 'Network Authentication Required', kind: 'body' },
+} as const;
+
+const isPromiseLike = (value: any): value is PromiseLike<unknown> => {
+  return value != null && typeof value.then === 'function';
+};
 
 const hash = async (data: Data) => {
   const values = await Promise.all(Object.values(data));
@@ -26,126 +852,2925 @@ const hashSettled = async (data: Data) => {
   return Object.fromEntries(Object.keys(data).map((prop, i) => [prop, values[i]]));
 };
 
-const errorReplacer = (_key: string, value: any) => {
-  if (value instanceof Error) {
-    return { message: value.message, name: value.name, isError: true };
+const randomId = () => {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
   }
-  return value;
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
 };
 
-const makeResponse = ({ status, body, init }: { status: number; body: BodyInit; init?: Init }) => {
-  return new Response(body, {
-    ...init,
-    status,
-    headers: {
-      ...init?.headers,
-      'Content-Type': 'application/json; charset=utf-8',
-    },
-  });
+// Serializes an error with its stack, code, cause chain and custom
+// fields. `seen` protects against errors that are their own cause.
+const serializeErrorForDevelopment = (error: Error, seen = new Set<Error>()): Record<string, unknown> => {
+  seen.add(error);
+  const { cause, code } = error as Error & { cause?: unknown; code?: unknown };
+  const serialized: Record<string, unknown> = {
+    ...error,
+    message: error.message,
+    name: error.name,
+    stack: error.stack,
+    isError: true,
+  };
+  if (code !== undefined) {
+    serialized.code = code;
+  }
+  if (cause instanceof Error) {
+    serialized.cause = seen.has(cause) ? '[Circular]' : serializeErrorForDevelopment(cause, seen);
+  } else if (cause !== undefined) {
+    serialized.cause = cause;
+  }
+  return serialized;
 };
 
-const responseFunction = (status: number, data: Data, init?: Init) => {
-  // Stream handes the case of a thrown response. We can't wrap that
-  // in a thenable but we can defer the body until the promise is
-  // resolved with a stream.
-  const stream = new Readable();
-  stream._read = () => {};
-  // We always used allSettled for thrown responses because we want
-  // the error data to be consistent in the ErrorBoundary.
-  hashSettled(data).then(result => {
-    stream.push(JSON.stringify(result, errorReplacer));
-    stream.push(null);
-  });
+/**
+ * Creates the replacer used by serializers to serialize `Error`s with
+ * the given policy. Each error gets a single correlation id, even if
+ * it is serialized more than once.
+ */
+const createErrorReplacer = (policy: ResponseOptions['errorPolicy'] = {}): Replacer => {
+  const {
+    mode = 'default',
+    map,
+    message = 'Internal Server Error',
+    correlationId = randomId,
+    onRedact,
+  } = typeof policy === 'string' ? { mode: policy } : policy;
+  const redacted = new WeakMap<Error, Record<string, unknown>>();
 
-  // Return a promise instance so users can throw the response.
-  let response = makeResponse({
-    body: stream,
-    status,
-    init,
-  });
+  return (_key: string, value: any) => {
+    if (!(value instanceof Error)) {
+      return value;
+    }
+    const mapped = map?.(value);
+    if (mapped !== undefined) {
+      return { name: value.name, ...mapped, isError: true };
+    }
+    if (mode === 'development') {
+      return serializeErrorForDevelopment(value);
+    }
+    if (mode === 'production') {
+      if (!redacted.has(value)) {
+        const id = correlationId(value);
+        onRedact?.(value, id);
+        redacted.set(value, { message, name: 'Error', correlationId: id, isError: true });
+      }
+      return redacted.get(value);
+    }
+    return { message: value.message, name: value.name, isError: true };
+  };
+};
 
-  const then: PromiseLike<TypedResponse<Data>>['then'] = (cb, eb) => {
-    return hash(data)
-      .then(data => {
-        return makeResponse({
-          body: JSON.stringify(data),
-          status,
-          init,
-        });
-      })
-      .catch(async () => {
-        // For the error case we used a hashSettled so the
-        // ErrorBoundary can see what options resolved /
-        // rejected.
-        const result = await hashSettled(data);
+const errorReplacer = createErrorReplacer();
 
-        return Promise.reject(
-          makeResponse({
-            body: JSON.stringify(result, errorReplacer),
-            status: 500,
-            init,
-          })
-        );
-      })
-      .then(cb, eb);
-  };
+/**
+ * The default serializer. `Date`s become strings, `Map`s and `Set`s
+ * become empty objects and `BigInt`s throw, just like `JSON.stringify`.
+ */
+export const jsonSerializer: Serializer = {
+  stringify: (value, replacer) => JSON.stringify(value, replacer),
+};
 
-  // Make this response a PromiseLike so if we reject after
-  // returning a response we can update the status code to 500.
-  // @ts-ignore
-  response.then = then;
-  return response;
+const builtInTypes: Record<string, SerializerType> = {
+  undefined: {
+    test: (value): value is undefined => value === undefined,
+    encode: () => null,
+    decode: () => undefined,
+  },
+  Number: {
+    test: (value): value is number => typeof value === 'number' && !Number.isFinite(value),
+    encode: value => String(value),
+    decode: value => Number(value),
+  },
+  BigInt: {
+    test: (value): value is bigint => typeof value === 'bigint',
+    encode: value => value.toString(),
+    decode: value => BigInt(value),
+  },
+  Date: {
+    test: (value): value is Date => value instanceof Date,
+    encode: value => (isNaN(value.getTime()) ? null : value.toISOString()),
+    decode: value => new Date(value ?? NaN),
+  },
+  RegExp: {
+    test: (value): value is RegExp => value instanceof RegExp,
+    encode: value => [value.source, value.flags],
+    decode: ([source, flags]) => new RegExp(source, flags),
+  },
+  URL: {
+    test: (value): value is URL => typeof URL !== 'undefined' && value instanceof URL,
+    encode: value => value.href,
+    decode: value => new URL(value),
+  },
+  Map: {
+    test: (value): value is Map<unknown, unknown> => value instanceof Map,
+    encode: value => Array.from(value.entries()),
+    decode: value => new Map(value),
+  },
+  Set: {
+    test: (value): value is Set<unknown> => value instanceof Set,
+    encode: value => Array.from(value.values()),
+    decode: value => new Set(value),
+  },
 };
 
-const redirectFunction = (status: number, url: string) => {
-  return new Response(null, {
-    status,
-    headers: { Location: url },
-  });
+const isTagged = (value: any): value is { $type: string; value: unknown } => {
+  return value != null && typeof value === 'object' && !Array.isArray(value) && typeof value.$type === 'string';
 };
 
-// 2XX
 /**
- * This is a shortcut for creating `application/json` responses with
- * `status: 200`. Converts `data` into JSON when all the given
- * promises have been fulfilled. The serialized JSON body is an object
- * that has the same key names as the promises object argument. If any
- * of the values in the object are not promises, they will simply be
- * copied over to the fulfilled object.
+ * Creates a serializer that keeps `Date`s, `BigInt`s, `Map`s, `Set`s,
+ * `RegExp`s, `URL`s, `undefined` and non-finite numbers intact. Each
+ * of these values is encoded as an object with a `$type` key that can
+ * be decoded with the serializer's `parse` function. Objects that
+ * already have a `$type` key are escaped so they are never confused
+ * with an encoded value.
  *
- * This works similar to `Promise.all([])`, but takes an object
- * instead of an array for its promises argument
+ * Additional types can be registered by name, for example Prisma's
+ * `Decimal`.
+ *
+ * ```ts
+ * import { createSerializer, ok } from 'remix-response';
+ * import { Prisma } from '@prisma/client';
  *
+ * export const serializer = createSerializer({
+ *   Decimal: {
+ *     test: (value): value is Prisma.Decimal => Prisma.Decimal.isDecimal(value),
+ *     encode: value => value.toString(),
+ *     decode: value => new Prisma.Decimal(value),
+ *   },
+ * });
+ *
+ * export const loader = async () => {
+ *   return ok({ invoice: db.invoice.findFirst() }, { serializer });
+ * };
+ * ```
+ *
+ * @param types? - Additional types keyed by a unique name.
+ */
+export const createSerializer = (types: Record<string, SerializerType> = {}): TypedSerializer => {
+  const allTypes = Object.entries({ ...builtInTypes, ...types });
+
+  const stringify = (value: unknown, replacer: Replacer) => {
+    // `this[key]` is the value before `toJSON` is called, which is
+    // needed to see `Date`s.
+    return JSON.stringify(value, function (this: any, key: string, value: any) {
+      const raw = this[key];
+      if (raw instanceof Error) {
+        return replacer(key, raw);
+      }
+      for (const [$type, type] of allTypes) {
+        if (type.test(raw)) {
+          return { $type, value: type.encode(raw) };
+        }
+      }
+      if (isTagged(value)) {
+        return { $type: 'Object', value: Object.entries(value) };
+      }
+      return value;
+    });
+  };
+
+  // JSON.parse revives the innermost values first so the encoded
+  // values of Maps, Sets and escaped objects are already decoded.
+  const reviver = (_key: string, value: any) => {
+    if (!isTagged(value)) {
+      return value;
+    }
+    if (value.$type === 'Object') {
+      return Object.fromEntries(value.value as [string, unknown][]);
+    }
+    const type = allTypes.find(([$type]) => $type === value.$type);
+    return type ? type[1].decode(value.value) : value;
+  };
+
+  const parse = <T>(value: string | Encoded<T>): T => {
+    return JSON.parse(typeof value === 'string' ? value : JSON.stringify(value), reviver);
+  };
+
+  return { stringify, parse };
+};
+
+/**
+ * The serializer created by `createSerializer` with the built-in types.
+ */
+export const typedSerializer = createSerializer();
+
+/**
+ * Decodes a response body encoded with the `typedSerializer`. This
+ * accepts either the raw response text or the already parsed JSON,
+ * like the value returned from `useLoaderData`.
  *
  * ```ts
- * import { ok } from 'remix-response';
+ * import { ok, parse, typedSerializer } from 'remix-response';
+ *
  * export const loader = async () => {
- *   return ok({
- *     hello: 'world',
- *     promise: Promise.resolve('result'),
- *   });
+ *   return ok({ createdAt: new Date() }, { serializer: typedSerializer });
  * };
+ *
+ * export default function Route() {
+ *   const { createdAt } = parse(useLoaderData<typeof loader>());
+ *   // ...
+ * }
  * ```
  *
- * @param data - A JavaScript object that will be serialized as JSON.
- * @param init? - An optional RequestInit configuration object.
+ * @param value - The response text or parsed JSON.
  */
-export const ok: ResponseFunction = responseFunction.bind(null, 200);
+export const parse = typedSerializer.parse;
+
+// Every key of `ResponseOptions`, so they can be removed before the
+// init is passed to the `Response` constructor.
+const RESPONSE_OPTIONS: Record<keyof ResponseOptions, true> = {
+  errorPolicy: true,
+  cache: true,
+  serializer: true,
+  deferred: true,
+  problem: true,
+  request: true,
+  etag: true,
+  lastModified: true,
+  timeout: true,
+  fallback: true,
+  keys: true,
+  deep: true,
+  signal: true,
+  onError: true,
+  cookies: true,
+  compress: true,
+  schema: true,
+  onSchemaMismatch: true,
+  retryAfter: true,
+  rateLimit: true,
+  timing: true,
+  onSettled: true,
+};
+
+const CACHE_PRESETS = {
+  /** For fingerprinted assets that never change. */
+  static: { public: true, maxAge: 31536000, immutable: true },
+  /** For public data that may be briefly stale. */
+  'public-short': { public: true, maxAge: 60, staleWhileRevalidate: 60 },
+  /** For user specific data that may be briefly stale. */
+  'private-short': { private: true, maxAge: 60 },
+  /** Caches must revalidate before every use. */
+  'no-cache': { noCache: true },
+  /** Nothing may be cached. */
+  'no-store': { noStore: true },
+} satisfies Record<string, CacheControl>;
+
+const CACHE_DIRECTIVES: [Exclude<keyof CacheControl, 'vary'>, string][] = [
+  ['public', 'public'],
+  ['private', 'private'],
+  ['noCache', 'no-cache'],
+  ['noStore', 'no-store'],
+  ['noTransform', 'no-transform'],
+  ['maxAge', 'max-age'],
+  ['sMaxAge', 's-maxage'],
+  ['staleWhileRevalidate', 'stale-while-revalidate'],
+  ['staleIfError', 'stale-if-error'],
+  ['mustRevalidate', 'must-revalidate'],
+  ['proxyRevalidate', 'proxy-revalidate'],
+  ['immutable', 'immutable'],
+];
+
+const toCacheControl = (cache: CachePreset | CacheControl): CacheControl => {
+  if (typeof cache !== 'string') {
+    return cache;
+  }
+  if (!(cache in CACHE_PRESETS)) {
+    throw new TypeError(`Unknown cache preset: ${cache}`);
+  }
+  return CACHE_PRESETS[cache];
+};
+
+/**
+ * Builds a `Cache-Control` header value from typed directives or a
+ * named preset. The available presets are `static`, `public-short`,
+ * `private-short`, `no-cache` and `no-store`.
+ *
+ * ```ts
+ * import { cacheControl } from 'remix-response';
+ * export const headers = () => ({
+ *   'Cache-Control': cacheControl({ public: true, maxAge: 60, staleWhileRevalidate: 600 }),
+ * });
+ * ```
+ *
+ * @param cache - The directives or the name of a preset.
+ */
+export const cacheControl = (cache: CachePreset | CacheControl) => {
+  const directives = toCacheControl(cache);
+  if (directives.public && directives.private) {
+    throw new TypeError('Cache-Control cannot be both public and private');
+  }
+  return CACHE_DIRECTIVES.flatMap(([key, name]) => {
+    const value = directives[key];
+    if (typeof value === 'number') {
+      if (!Number.isInteger(value) || value < 0) {
+        throw new RangeError(`${name} must be a non-negative integer, got ${value}`);
+      }
+      return [`${name}=${value}`];
+    }
+    return value ? [name] : [];
+  }).join(', ');
+};
+
+// Adds values to a header without duplicating values that are
+// already present.
+const appendHeader = (headers: Headers, name: string, values: string[]) => {
+  const existing = headers.has(name)
+    ? headers
+        .get(name)!
+        .split(',')
+        .map(value => value.trim())
+    : [];
+  const merged = [...existing, ...values.filter(value => !existing.includes(value))];
+  headers.set(name, merged.join(', '));
+};
+
+// Merges any form of `HeadersInit`. Later headers replace earlier ones,
+// except for `Set-Cookie`, which is appended so every cookie is kept.
+const mergeHeaders = (...inits: (HeadersInit | undefined)[]) => {
+  const headers = new Headers();
+  for (const init of inits) {
+    new Headers(init).forEach((value, name) => {
+      if (name === 'set-cookie') {
+        headers.append(name, value);
+      } else {
+        headers.set(name, value);
+      }
+    });
+  }
+  return headers;
+};
+
+/**
+ * Builds a `Set-Cookie` header value from a typed cookie definition.
+ * The value is URI encoded. Throws a `TypeError` when a `SameSite=None`
+ * or partitioned cookie isn't `secure`, because browsers reject them.
+ *
+ * ```ts
+ * import { setCookie } from 'remix-response';
+ * const headers = new Headers();
+ * headers.append('Set-Cookie', setCookie({ name: 'theme', value: 'dark', maxAge: 31536000 }));
+ * ```
+ *
+ * @param cookie - The name, value and attributes of the cookie.
+ */
+export const setCookie = (cookie: Cookie) => {
+  const { name, value, domain, path = '/', expires, maxAge, httpOnly, secure, sameSite, partitioned } = cookie;
+  if ((sameSite === 'None' || partitioned) && !secure) {
+    throw new TypeError(`The ${name} cookie must be secure when it is partitioned or has SameSite=None`);
+  }
+  const attributes = [`${name}=${encodeURIComponent(value)}`, `Path=${path}`];
+  if (domain) {
+    attributes.push(`Domain=${domain}`);
+  }
+  if (expires) {
+    attributes.push(`Expires=${expires.toUTCString()}`);
+  }
+  if (maxAge !== undefined) {
+    attributes.push(`Max-Age=${Math.floor(maxAge)}`);
+  }
+  if (httpOnly) {
+    attributes.push('HttpOnly');
+  }
+  if (secure) {
+    attributes.push('Secure');
+  }
+  if (sameSite) {
+    attributes.push(`SameSite=${sameSite}`);
+  }
+  if (partitioned) {
+    attributes.push('Partitioned');
+  }
+  return attributes.join('; ');
+};
+
+const appendCookies = (headers: Headers, cookies: Cookie[] = []) => {
+  for (const cookie of cookies) {
+    headers.append('Set-Cookie', setCookie(cookie));
+  }
+};
+
+const setCacheHeaders = (headers: Headers, cache: CachePreset | CacheControl) => {
+  const { vary } = toCacheControl(cache);
+  headers.set('Cache-Control', cacheControl(cache));
+  if (vary) {
+    appendHeader(headers, 'Vary', typeof vary === 'string' ? [vary] : vary);
+  }
+};
+
+const toResponseInit = (init?: Init): Omit<ResponseInit, 'status'> & { headers: Headers } => {
+  const responseInit: Record<string, unknown> = { ...init };
+  for (const option of Object.keys(RESPONSE_OPTIONS)) {
+    delete responseInit[option];
+  }
+  const headers = mergeHeaders(init?.headers);
+  if (init?.cache) {
+    setCacheHeaders(headers, init.cache);
+  }
+  if (init?.compress) {
+    appendHeader(headers, 'Vary', ['Accept-Encoding']);
+  }
+  if (init?.retryAfter !== undefined) {
+    headers.set('Retry-After', toDelay(init.retryAfter, true));
+  }
+  if (init?.rateLimit) {
+    setRateLimitHeaders(headers, init.rateLimit);
+  }
+  appendCookies(headers, init?.cookies);
+  return { ...responseInit, headers };
+};
+
+// `Retry-After` accepts an HTTP date, but the `RateLimit` headers only
+// accept a number of seconds.
+const toDelay = (delay: number | Date, allowDate = false) => {
+  if (delay instanceof Date) {
+    return allowDate ? delay.toUTCString() : String(Math.max(Math.ceil((delay.getTime() - Date.now()) / 1000), 0));
+  }
+  return String(Math.max(Math.ceil(delay), 0));
+};
+
+const setRateLimitHeaders = (headers: Headers, rateLimit: RateLimit) => {
+  const { limit, window, format = 'separate', policy = 'default' } = rateLimit;
+  const remaining = Math.max(Math.floor(rateLimit.remaining), 0);
+  const reset = toDelay(rateLimit.reset);
+  if (format === 'combined') {
+    headers.set('RateLimit', `"${policy}";r=${remaining};t=${reset}`);
+    headers.set('RateLimit-Policy', `"${policy}";q=${limit}${window === undefined ? '' : `;w=${window}`}`);
+    return;
+  }
+  headers.set('RateLimit-Limit', String(limit));
+  headers.set('RateLimit-Remaining', String(remaining));
+  headers.set('RateLimit-Reset', reset);
+  if (window !== undefined) {
+    headers.set('RateLimit-Policy', `${limit};w=${window}`);
+  }
+};
+
+const DEFAULT_ENCODINGS: ContentEncoding[] = ['br', 'gzip', 'deflate'];
+
+// `CompressionStream` only supports gzip and deflate, so brotli needs
+// an adapter.
+const canCompress = (encoding: ContentEncoding, options: CompressOptions) => {
+  return encoding === 'br' ? !!options.brotli : typeof CompressionStream !== 'undefined';
+};
+
+// Picks the first of `encodings` with the highest quality in the
+// `Accept-Encoding` header.
+const selectEncoding = (acceptEncoding: string | null, options: CompressOptions) => {
+  if (!acceptEncoding) {
+    return;
+  }
+  const qualities: Record<string, number> = {};
+  for (const part of acceptEncoding.split(',')) {
+    const [coding, ...params] = part.trim().split(';');
+    const qParam = params.map(param => param.trim().split('=')).find(([name]) => name.toLowerCase() === 'q');
+    const q = qParam ? parseFloat(qParam[1]) : 1;
+    qualities[coding.trim().toLowerCase()] = isNaN(q) ? 1 : q;
+  }
+  let best: ContentEncoding | undefined;
+  let bestQuality = 0;
+  for (const encoding of options.encodings || DEFAULT_ENCODINGS) {
+    const quality = qualities[encoding] ?? qualities['*'] ?? 0;
+    if (quality > bestQuality && canCompress(encoding, options)) {
+      best = encoding;
+      bestQuality = quality;
+    }
+  }
+  return best;
+};
+
+// Writes `body` into a compressor, waiting whenever the compressor
+// is full. A failure errors the compressor, which passes it on to the
+// reader of the compressed stream, so nothing here can reject.
+const pump = async (body: ReadableStream<Uint8Array>, writer: WritableStreamDefaultWriter<Uint8Array>) => {
+  const reader = body.getReader();
+  try {
+    for (let result = await reader.read(); !result.done; result = await reader.read()) {
+      await writer.write(result.value);
+    }
+    await writer.close();
+  } catch (error) {
+    await Promise.all([reader.cancel(error).catch(() => {}), writer.abort(error).catch(() => {})]);
+  }
+};
+
+// The body is piped by hand because a polyfilled `ReadableStream`
+// can't always be piped into a native `CompressionStream`.
+const createCompressor = (body: ReadableStream<Uint8Array>, encoding: ContentEncoding, options: CompressOptions) => {
+  const compressor: Compressor =
+    encoding === 'br' ? options.brotli!() : (new CompressionStream(encoding) as Compressor);
+  pump(body, compressor.writable.getWriter());
+  return toAsyncIterator<Uint8Array>(compressor.readable);
+};
+
+// The compressor is only created once the body is read, so responses
+// that are never sent don't read their body.
+const compressStream = (body: ReadableStream<Uint8Array>, encoding: ContentEncoding, options: CompressOptions) => {
+  let compressor: AsyncIterator<Uint8Array> | undefined;
+  return new ReadableStream<Uint8Array>(
+    {
+      async pull(controller) {
+        compressor ??= createCompressor(body, encoding, options);
+        const result = await compressor.next();
+        if (result.done) {
+          controller.close();
+        } else {
+          controller.enqueue(result.value);
+        }
+      },
+      async cancel() {
+        await compressor?.return?.();
+      },
+    },
+    // Without this the stream would pull as soon as it is created.
+    { highWaterMark: 0 }
+  );
+};
+
+const toStream = (body: Uint8Array) => {
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(body);
+      controller.close();
+    },
+  });
+};
+
+// Compresses a body when the request accepts one of the encodings.
+// Streamed bodies are always compressed because their size isn't
+// known yet.
+const compressBody = (body: string | ReadableStream<Uint8Array>, headers: Headers, init?: Init) => {
+  if (!init?.compress || !init.request) {
+    return body;
+  }
+  const options = init.compress === true ? {} : init.compress;
+  const encoding = selectEncoding(init.request.headers.get('Accept-Encoding'), options);
+  if (!encoding) {
+    return body;
+  }
+  if (typeof body === 'string') {
+    const bytes = new TextEncoder().encode(body);
+    if (bytes.length < (options.threshold ?? 1024)) {
+      return body;
+    }
+    body = toStream(bytes);
+  }
+  headers.set('Content-Encoding', encoding);
+  headers.delete('Content-Length');
+  return compressStream(body, encoding, options);
+};
+
+const makeResponse = ({
+  status,
+  body,
+  init,
+  contentType = JSON_CONTENT_TYPE,
+}: {
+  status: number;
+  body: string | ReadableStream<Uint8Array>;
+  init?: Init;
+  contentType?: string;
+}) => {
+  const responseInit = toResponseInit(init);
+  responseInit.headers.set('Content-Type', contentType);
+  return new Response(compressBody(body, responseInit.headers, init), { ...responseInit, status });
+};
+
+// The problem details members always take precedence over the
+// extension members from `data`.
+const problemDetails = (status: number, data: Data, problem: true | ProblemDetails) => {
+  return {
+    ...data,
+    type: 'about:blank',
+    title: STATUSES[status as StatusCode]?.text,
+    ...(problem === true ? {} : problem),
+    status,
+  };
+};
+
+// Remix rebuilds each deferred error with `new Error(error.message)`,
+// so other rejection values are wrapped to keep their message.
+const deferredError = (error: unknown) => {
+  if (error instanceof Error || (isPlainObject(error) && typeof error.message === 'string')) {
+    return error;
+  }
+  return { message: String(error) };
+};
+
+// Writes the data in the same format as Remix's `defer`. The first
+// chunk is the critical data with every promise replaced by a
+// placeholder, followed by a `data:` or `error:` chunk for each
+// promise as it settles.
+const deferredStream = (data: Data, serializer: Serializer, replacer: Replacer) => {
+  const encoder = new TextEncoder();
+  let cancelled = false;
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      const enqueue = (chunk: string) => {
+        if (!cancelled) {
+          controller.enqueue(encoder.encode(chunk));
+        }
+      };
+
+      const criticalData: Data = {};
+      const pending = Object.entries(data).map(([key, value]) => {
+        if (!isPromiseLike(value)) {
+          criticalData[key] = value;
+          return;
+        }
+        criticalData[key] = `${DEFERRED_VALUE_PLACEHOLDER_PREFIX}${key}`;
+        return Promise.resolve(value).then(
+          value => enqueue(`data:${serializer.stringify({ [key]: value ?? null }, replacer)}\n\n`),
+          error => enqueue(`error:${serializer.stringify({ [key]: deferredError(error) }, replacer)}\n\n`)
+        );
+      });
+
+      // The settled chunks are always enqueued asynchronously so the
+      // critical data is guaranteed to be the first chunk.
+      enqueue(`${serializer.stringify(criticalData, replacer)}\n\n`);
+      Promise.all(pending).then(() => {
+        if (!cancelled) {
+          controller.close();
+        }
+      });
+    },
+    cancel() {
+      cancelled = true;
+    },
+  });
+};
+
+const formatEvent = ({ event, id, retry, comment, data }: ServerSentEvent, replacer = errorReplacer) => {
+  const lines: string[] = [];
+  if (comment !== undefined) {
+    lines.push(...comment.split(/\r\n|\r|\n/).map(line => `: ${line}`));
+  }
+  if (event !== undefined) {
+    lines.push(`event: ${event}`);
+  }
+  if (id !== undefined) {
+    lines.push(`id: ${id}`);
+  }
+  if (retry !== undefined) {
+    lines.push(`retry: ${retry}`);
+  }
+  if (data !== undefined) {
+    const text = typeof data === 'string' ? data : JSON.stringify(data, replacer);
+    lines.push(...text.split(/\r\n|\r|\n/).map(line => `data: ${line}`));
+  }
+  return `${lines.join('\n')}\n\n`;
+};
+
+// A fast, non-cryptographic hash (cyrb53). ETags only need to change
+// when the body changes, so this is preferred over `crypto`, which
+// isn't synchronous in every runtime.
+const hashString = (text: string) => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+const createETag = (body: string, etag: NonNullable<ResponseOptions['etag']>) => {
+  if (typeof etag === 'string' && etag !== 'strong' && etag !== 'weak') {
+    return /^(W\/)?"/.test(etag) ? etag : `"${etag}"`;
+  }
+  const tag = `"${body.length.toString(36)}-${hashString(body)}"`;
+  return etag === 'weak' ? `W/${tag}` : tag;
+};
+
+const parseETags = (header: string) => header.split(',').map(tag => tag.trim());
+
+const isWeakETag = (tag: string) => tag.startsWith('W/');
+
+const weakETagsMatch = (a: string, b: string) => a.replace(/^W\//, '') === b.replace(/^W\//, '');
+
+// HTTP dates only have second precision.
+const toHttpSeconds = (date: Date | string | number) => Math.floor(new Date(date).getTime() / 1000);
+
+// Evaluates the conditional request headers in the order given by RFC
+// 9110 section 13.2.2. Returns the status to send instead of the
+// body, if any.
+const evaluatePreconditions = (request: Request, etag?: string, lastModified?: Date | string | number) => {
+  const ifMatch = request.headers.get('If-Match');
+  const ifUnmodifiedSince = request.headers.get('If-Unmodified-Since');
+  const ifNoneMatch = request.headers.get('If-None-Match');
+  const ifModifiedSince = request.headers.get('If-Modified-Since');
+  const isGetOrHead = request.method === 'GET' || request.method === 'HEAD';
+
+  if (ifMatch) {
+    const matches = parseETags(ifMatch).some(
+      tag => tag === '*' || (!!etag && !isWeakETag(etag) && !isWeakETag(tag) && tag === etag)
+    );
+    if (!matches) {
+      return 412;
+    }
+  } else if (ifUnmodifiedSince && lastModified !== undefined) {
+    const since = Date.parse(ifUnmodifiedSince);
+    if (!isNaN(since) && toHttpSeconds(lastModified) > toHttpSeconds(since)) {
+      return 412;
+    }
+  }
+
+  if (ifNoneMatch) {
+    const matches = parseETags(ifNoneMatch).some(tag => tag === '*' || (!!etag && weakETagsMatch(tag, etag)));
+    if (matches) {
+      return isGetOrHead ? 304 : 412;
+    }
+  } else if (ifModifiedSince && lastModified !== undefined && isGetOrHead) {
+    const since = Date.parse(ifModifiedSince);
+    if (!isNaN(since) && toHttpSeconds(lastModified) <= toHttpSeconds(since)) {
+      return 304;
+    }
+  }
+};
+
+// Adds the validators to a fulfilled response and replaces it with a
+// `304` or `412` when the conditional request headers match.
+const conditionalResponse = (response: Response, body: string, init?: Init) => {
+  const { request, etag, lastModified } = init || {};
+  if (!etag && lastModified === undefined) {
+    return response;
+  }
+  const validators: Record<string, string> = {};
+  if (etag) {
+    validators.ETag = createETag(body, etag);
+    // A strong ETag must change with the encoding, so compressed
+    // responses only get a weak one.
+    if (response.headers.has('Content-Encoding') && !isWeakETag(validators.ETag)) {
+      validators.ETag = `W/${validators.ETag}`;
+    }
+  }
+  if (lastModified !== undefined) {
+    validators['Last-Modified'] = new Date(lastModified).toUTCString();
+  }
+
+  const status = request && evaluatePreconditions(request, validators.ETag, lastModified);
+  if (status === 304) {
+    const responseInit = toResponseInit(init);
+    for (const [name, value] of Object.entries(validators)) {
+      responseInit.headers.set(name, value);
+    }
+    return new Response(null, { ...responseInit, status });
+  }
+  if (status === 412) {
+    return makeResponse({ body: '{}', status, init });
+  }
+  for (const [name, value] of Object.entries(validators)) {
+    response.headers.set(name, value);
+  }
+  return response;
+};
+
+const isPlainObject = (value: any): value is Record<string, unknown> => {
+  if (value === null || typeof value !== 'object') {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+};
+
+// Walks the plain objects and arrays in `value` looking for a promise.
+const containsPromise = (value: unknown, seen = new Set<unknown>()): boolean => {
+  if (isPromiseLike(value)) {
+    return true;
+  }
+  if (!(Array.isArray(value) || isPlainObject(value)) || seen.has(value)) {
+    return false;
+  }
+  seen.add(value);
+  return Object.values(value).some(child => containsPromise(child, seen));
+};
+
+// Resolves the promises in the plain objects and arrays of `value`.
+// `ancestors` holds the objects on the current path, so the same
+// object may appear more than once but a circular reference rejects
+// instead of recursing forever.
+const resolveDeep = async (value: unknown, ancestors: unknown[] = []): Promise<unknown> => {
+  if (isPromiseLike(value)) {
+    return resolveDeep(await value, ancestors);
+  }
+  if (!(Array.isArray(value) || isPlainObject(value))) {
+    return value;
+  }
+  if (ancestors.includes(value)) {
+    throw new TypeError('Cannot resolve a circular structure');
+  }
+  const path = [...ancestors, value];
+  if (Array.isArray(value)) {
+    return Promise.all(value.map(item => resolveDeep(item, path)));
+  }
+  const entries = await Promise.all(
+    Object.entries(value).map(async ([key, child]) => [key, await resolveDeep(child, path)])
+  );
+  return Object.fromEntries(entries);
+};
+
+// In deep mode each value with a nested promise is replaced with a
+// promise for the fully resolved value, so the rest of the response
+// only deals with top level promises.
+const withDeepPromises = (data: Data, init: Init | undefined) => {
+  if (!init?.deep) {
+    return data;
+  }
+  return Object.fromEntries(
+    Object.entries(data).map(([key, value]) => [key, containsPromise(value) ? resolveDeep(value) : value])
+  );
+};
+
+const DEGRADED_KEYS_HEADER = 'X-Degraded-Keys';
+
+const now = () => (typeof performance !== 'undefined' ? performance.now() : Date.now());
+
+// Hooks are called from promise callbacks and timers, where an error
+// they throw would become an unhandled rejection, so it is logged.
+const callHook = <A extends unknown[]>(hook: ((...args: A) => void) | undefined, ...args: A) => {
+  try {
+    hook?.(...args);
+  } catch (error) {
+    console.error(error);
+  }
+};
+
+// Records how long each promise in `data` takes to settle in `timings`
+// and reports it to `onSettled`.
+const timeKeys = (data: Data, init: Init | undefined, timings: Map<string, number>) => {
+  const { timing, onSettled } = init || {};
+  if (!timing && !onSettled) {
+    return;
+  }
+  const start = now();
+  for (const [key, value] of Object.entries(data)) {
+    if (isPromiseLike(value)) {
+      // Keeps the timings in the same order as the keys.
+      timings.set(key, NaN);
+      const settle = (result: { status: 'fulfilled'; value: unknown } | { status: 'rejected'; reason: unknown }) => {
+        const duration = now() - start;
+        timings.set(key, duration);
+        callHook(onSettled, key, { ...result, duration });
+      };
+      value.then(
+        value => settle({ status: 'fulfilled', value }),
+        reason => settle({ status: 'rejected', reason })
+      );
+    }
+  }
+};
+
+// Metric names must be tokens, so other keys are renamed and keep
+// their original name in the description. A list of keys limits the
+// timings that are sent.
+const serverTiming = (timings: Map<string, number>, timing: true | string[]) => {
+  return Array.from(timings)
+    .filter(([key, duration]) => !isNaN(duration) && (timing === true || timing.includes(key)))
+    .map(([key, duration]) => {
+      const name = key.replace(/[^!#$%&'*+\-.^_`|~0-9A-Za-z]/g, '_');
+      const description = name === key ? '' : `;desc=${JSON.stringify(key.replace(/[^\x20-\x7e]/g, '?'))}`;
+      return `${name};dur=${duration.toFixed(1)}${description}`;
+    })
+    .join(', ');
+};
+
+const timeoutError = (key: string, timeout: number) => {
+  const error = new Error(`${key} timed out after ${timeout}ms`);
+  error.name = 'TimeoutError';
+  return error;
+};
+
+const isProduction = () => typeof process !== 'undefined' && process.env?.NODE_ENV === 'production';
+
+// Lists the keys in `data` that are missing from the output of the
+// schema, which is how fields like `passwordHash` leak.
+const removedKeys = (data: unknown, output: unknown, path: string[] = []): ValidationIssue[] => {
+  if (Array.isArray(data) && Array.isArray(output)) {
+    return data.flatMap((item, i) => removedKeys(item, output[i], [...path, String(i)]));
+  }
+  if (!isPlainObject(data) || !isPlainObject(output)) {
+    return [];
+  }
+  return Object.keys(data).flatMap(key =>
+    key in output
+      ? removedKeys(data[key], output[key], [...path, key])
+      : [{ path: [...path, key], message: 'Unknown key' }]
+  );
+};
+
+const schemaError = (status: number, issues: ValidationIssue[]) => {
+  const lines = issues.map(issue => `  - ${issuePath(issue.path) || '(root)'}: ${issue.message}`);
+  const error = new Error(`The data for the ${status} response does not match the schema:\n${lines.join('\n')}`);
+  error.name = 'ResponseSchemaError';
+  return Object.assign(error, { issues });
+};
+
+// Returns the data to send. Invalid data always throws a
+// `ResponseSchemaError` since it must never be sent, and the policy
+// decides what happens to keys the schema removed.
+const validateSchema = async (status: number, data: Data, init: Init) => {
+  const { schema, onSchemaMismatch = isProduction() ? 'strip' : 'throw' } = init;
+  const result = await schema!['~standard'].validate(data);
+  if (result.issues) {
+    throw schemaError(status, [...result.issues]);
+  }
+  const issues = removedKeys(data, result.value);
+  if (issues.length) {
+    const error = schemaError(status, issues);
+    if (onSchemaMismatch === 'throw') {
+      throw error;
+    }
+    if (onSchemaMismatch === 'log') {
+      console.error(error.message);
+    } else if (onSchemaMismatch === 'warn') {
+      console.warn(error.message);
+    }
+  }
+  return result.value;
+};
+
+// Validates the fulfilled values of a thrown or rejected response.
+// Partial data can't be checked against the schema, so when a key
+// rejected or the data is invalid every fulfilled value is replaced
+// with the `ResponseSchemaError`.
+const validateSettled = async (
+  status: number,
+  result: Record<string, PromiseSettledResult<unknown>>,
+  init: Init
+): Promise<Record<string, PromiseSettledResult<unknown>>> => {
+  const entries = Object.entries(result);
+  const rejected = entries.filter(([, result]) => result.status === 'rejected').map(([key]) => key);
+  let reason: unknown;
+  if (rejected.length) {
+    reason = schemaError(
+      status,
+      rejected.map(key => ({ path: [key], message: 'Rejected so the data could not be validated' }))
+    );
+  } else {
+    try {
+      const values = Object.fromEntries(
+        entries.map(([key, result]) => [key, (result as PromiseFulfilledResult<unknown>).value])
+      );
+      const output = await validateSchema(status, values, init);
+      return Object.fromEntries(
+        Object.entries(output).map(([key, value]) => [key, { status: 'fulfilled' as const, value }])
+      );
+    } catch (error) {
+      reason = error;
+    }
+  }
+  return Object.fromEntries(
+    entries.map(([key, result]) => [
+      key,
+      result.status === 'fulfilled' ? { status: 'rejected' as const, reason } : result,
+    ])
+  );
+};
+
+// Wraps each promise in `data` so it settles within its timeout, or
+// when the signal aborts, using its fallback if it has one. The keys
+// that used a fallback are added to `degraded`.
+const withFallbacks = (data: Data, init: Init | undefined, degraded: Set<string>) => {
+  const { timeout, keys = {}, signal, ...rest } = init || {};
+  const defaults: KeyOptions = 'fallback' in rest ? { timeout, fallback: rest.fallback } : { timeout };
+  return Object.fromEntries(
+    Object.entries(data).map(([key, value]) => {
+      const options = { ...defaults, ...keys[key] };
+      const hasFallback = 'fallback' in options;
+      if (!isPromiseLike(value) || (options.timeout === undefined && !hasFallback && !signal)) {
+        return [key, value];
+      }
+      const promise = new Promise((resolve, reject) => {
+        let settled = false;
+        const settle = (callback: () => void) => {
+          if (!settled) {
+            settled = true;
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', onAbort);
+            callback();
+          }
+        };
+        const fail = (error: unknown) => {
+          settle(() => {
+            if (hasFallback) {
+              callHook(init?.onError, error, key);
+              degraded.add(key);
+              resolve(options.fallback);
+            } else {
+              reject(error);
+            }
+          });
+        };
+        const onAbort = () => fail(signal!.reason);
+        const timer =
+          options.timeout === undefined
+            ? undefined
+            : setTimeout(() => fail(timeoutError(key, options.timeout!)), options.timeout);
+        signal?.addEventListener('abort', onAbort);
+        if (signal?.aborted) {
+          onAbort();
+        }
+        Promise.resolve(value).then(value => settle(() => resolve(value)), fail);
+      });
+      return [key, promise];
+    })
+  );
+};
+
+// `render` is only used for the fulfilled body. Thrown and rejected
+// responses always use the serializer so the ErrorBoundary gets the
+// settled object.
+const responseFunction = (
+  status: number,
+  data: Data,
+  init?: Init,
+  render?: { contentType: string; render: (data: Data) => string }
+) => {
+  const serializer = init?.serializer || jsonSerializer;
+  const replacer = createErrorReplacer(init?.errorPolicy);
+  const degraded = new Set<string>();
+  data = withFallbacks(withDeepPromises(data, init), init, degraded);
+  const timings = new Map<string, number>();
+  timeKeys(data, init, timings);
+  if (init?.schema && init.deferred) {
+    // Each deferred key is sent as soon as it settles, before the rest
+    // of the data can be validated.
+    throw new TypeError('A schema cannot be used with deferred responses');
+  }
+  if (init?.onError) {
+    const { onError } = init;
+    for (const [key, value] of Object.entries(data)) {
+      if (isPromiseLike(value)) {
+        value.then(undefined, error => callHook(onError, error, key));
+      }
+    }
+  }
+
+  // Deferred responses have already sent their status by the time a
+  // promise rejects so there is nothing to update and the response
+  // does not need to be a thenable.
+  if (init?.deferred) {
+    return makeResponse({
+      body: deferredStream(data, serializer, replacer),
+      status,
+      // Compression would hold back each settled chunk until the
+      // compressor's buffer is full.
+      init: { ...init, compress: false },
+      contentType: DEFERRED_CONTENT_TYPE,
+    });
+  }
+
+  const { problem } = init || {};
+  const contentType = problem ? PROBLEM_CONTENT_TYPE : serializer.contentType || JSON_CONTENT_TYPE;
+  const stringify = (status: number, result: Data, details = problem) => {
+    return serializer.stringify(details ? problemDetails(status, result, details) : result, replacer);
+  };
+
+  // Stream handes the case of a thrown response. We can't wrap that
+  // in a thenable but we can defer the body until the promise is
+  // resolved with a stream.
+  // We always used allSettled for thrown responses because we want
+  // the error data to be consistent in the ErrorBoundary. It starts
+  // right away so a rejection is handled even if the body is never read.
+  const settled = hashSettled(data);
+  const stream = new ReadableStream<Uint8Array>(
+    {
+      async pull(controller) {
+        let result = await settled;
+        if (init?.schema) {
+          result = await validateSettled(status, result, init);
+        }
+        controller.enqueue(new TextEncoder().encode(stringify(status, result)));
+        controller.close();
+      },
+    },
+    // Only validate the body when it is read, so awaited responses
+    // don't validate the data twice.
+    { highWaterMark: 0 }
+  );
+
+  // Return a promise instance so users can throw the response.
+  let response = makeResponse({
+    body: stream,
+    status,
+    init,
+    contentType,
+  });
+
+  const withTimings = (response: Response) => {
+    const header = init?.timing && serverTiming(timings, init.timing);
+    if (header) {
+      response.headers.append('Server-Timing', header);
+    }
+    return response;
+  };
+
+  const then: PromiseLike<TypedResponse<Data>>['then'] = (cb, eb) => {
+    let mismatch: Error | undefined;
+    return hash(data)
+      .then(async data => {
+        if (init?.schema) {
+          try {
+            data = await validateSchema(status, data, init);
+          } catch (error) {
+            mismatch = error as Error;
+            throw error;
+          }
+        }
+        const body = render ? render.render(data) : stringify(status, data);
+        const response = makeResponse({
+          body,
+          status,
+          init,
+          contentType: render ? render.contentType : contentType,
+        });
+        if (degraded.size) {
+          response.headers.set(DEGRADED_KEYS_HEADER, Array.from(degraded).join(', '));
+        }
+        return withTimings(conditionalResponse(response, body, init));
+      })
+      .catch(async () => {
+        // The data didn't match the schema, so it must not be sent in
+        // a settled body either.
+        if (mismatch) {
+          throw mismatch;
+        }
+        // For the error case we used a hashSettled so the
+        // ErrorBoundary can see what options resolved /
+        // rejected.
+        let result = await hashSettled(data);
+        if (init?.schema) {
+          result = await validateSettled(status, result, init);
+        }
+
+        return Promise.reject(
+          withTimings(
+            makeResponse({
+              // The problem type and title describe the original status
+              // so only the instance still applies to the 500.
+              body: stringify(500, result, problem && { instance: problem === true ? undefined : problem.instance }),
+              status: 500,
+              init,
+              contentType,
+            })
+          )
+        );
+      })
+      .then(cb, eb);
+  };
+
+  // Make this response a PromiseLike so if we reject after
+  // returning a response we can update the status code to 500.
+  // @ts-ignore
+  response.then = then;
+  return response;
+};
+
+const emptyFunction = (status: number, init?: Init) =>
+  new Response(null, {
+    ...toResponseInit(init),
+    status,
+  });
+
+const isAllowedHost = (host: string, allowedHosts: string[]) => {
+  return allowedHosts.some(allowed => {
+    allowed = allowed.toLowerCase();
+    return allowed.startsWith('*.') ? host.endsWith(allowed.slice(1)) : host === allowed;
+  });
+};
+
+// Used to parse relative urls when there is no base url. It can't
+// collide with a real host.
+const PLACEHOLDER_ORIGIN = 'http://remix-response.invalid';
+
+// Returns the url to redirect to, or `undefined` if it isn't safe.
+// Browsers treat backslashes as slashes and ignore tabs and newlines,
+// so `/\evil.com` is normalized to a protocol-relative url before
+// it is checked.
+const resolveRedirect = (url: string, { base, allowedHosts = [] }: RedirectOptions) => {
+  const normalized = url
+    .trim()
+    .replace(/[\t\n\r]/g, '')
+    .replace(/\\/g, '/');
+  const baseUrl = base instanceof Request ? base.url : base?.toString();
+  let resolved: URL;
+  try {
+    resolved = new URL(normalized, baseUrl || PLACEHOLDER_ORIGIN);
+  } catch (error) {
+    return;
+  }
+  if (resolved.protocol !== 'http:' && resolved.protocol !== 'https:') {
+    return;
+  }
+  if (resolved.origin === new URL(baseUrl || PLACEHOLDER_ORIGIN).origin) {
+    return baseUrl ? resolved.href : `${resolved.pathname}${resolved.search}${resolved.hash}`;
+  }
+  if (isAllowedHost(resolved.host, allowedHosts)) {
+    return resolved.href;
+  }
+};
+
+// Urls with these schemes run script or render attacker controlled
+// content in the context of the current site.
+const UNSAFE_PROTOCOLS = ['javascript:', 'data:', 'vbscript:'];
+
+// The url is parsed so schemes hidden with whitespace, like
+// `java\tscript:`, are found the same way a browser would.
+const hasUnsafeScheme = (url: string) => {
+  try {
+    return UNSAFE_PROTOCOLS.includes(new URL(url, PLACEHOLDER_ORIGIN).protocol);
+  } catch (error) {
+    return false;
+  }
+};
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (value: string) => {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+// Node 18 only has the Web Crypto API behind a flag, so a missing
+// global gets an error that says how to fix it.
+const subtleCrypto = () => {
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) {
+    throw new Error(
+      'Flash messages need the Web Crypto API. On Node 18 run with --experimental-global-webcrypto ' +
+        "or set globalThis.crypto to the webcrypto export of 'node:crypto'."
+    );
+  }
+  return subtle;
+};
+
+const hmacKey = (secret: string) => {
+  return subtleCrypto().importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, [
+    'sign',
+    'verify',
+  ]);
+};
+
+const sign = async (value: string, secret: string) => {
+  const signature = await subtleCrypto().sign('HMAC', await hmacKey(secret), new TextEncoder().encode(value));
+  return `${value}.${toBase64Url(new Uint8Array(signature))}`;
+};
+
+// Returns the value if it was signed with one of the secrets.
+// `crypto.subtle.verify` compares the signatures in constant time.
+const unsign = async (signed: string, secrets: string[]) => {
+  const index = signed.lastIndexOf('.');
+  if (index === -1) {
+    return;
+  }
+  const value = signed.slice(0, index);
+  const signature = fromBase64Url(signed.slice(index + 1));
+  for (const secret of secrets) {
+    const key = await hmacKey(secret);
+    if (await subtleCrypto().verify('HMAC', key, signature, new TextEncoder().encode(value))) {
+      return value;
+    }
+  }
+};
+
+// Returns the raw, still encoded value of a cookie.
+const getCookie = (request: Request, name: string) => {
+  for (const pair of (request.headers.get('Cookie') || '').split(';')) {
+    const index = pair.indexOf('=');
+    if (index !== -1 && pair.slice(0, index).trim() === name) {
+      return pair.slice(index + 1).trim();
+    }
+  }
+};
+
+const FLASH_COOKIE_NAME = '__flash';
+
+const flashCookie = async ({ message, secrets, name = FLASH_COOKIE_NAME, path }: Flash): Promise<Cookie> => {
+  const value = toBase64Url(new TextEncoder().encode(JSON.stringify(message)));
+  return { name, value: await sign(value, secrets[0]), path, httpOnly: true, sameSite: 'Lax' };
+};
+
+// Returns a promise when there is a flash message to sign, which the
+// overloads of `RedirectFunction` tell apart by the `flash` option.
+const redirectFunction = (status: number, url: string, init?: RedirectInit) => {
+  const { base, allowedHosts, fallback, flash, cookies = [], cache, ...responseInit } = init || {};
+  let location = url;
+  if (base !== undefined || allowedHosts !== undefined || fallback !== undefined) {
+    const resolved = resolveRedirect(url, { base, allowedHosts });
+    if (resolved === undefined && fallback === undefined) {
+      throw new TypeError(`Unsafe redirect url: ${url}`);
+    }
+    location = resolved ?? fallback!;
+  } else if (init && hasUnsafeScheme(url)) {
+    throw new TypeError(`Unsafe redirect url: ${url}`);
+  }
+  const headers = mergeHeaders(responseInit.headers);
+  headers.set('Location', location);
+  if (cache) {
+    setCacheHeaders(headers, cache);
+  }
+  appendCookies(headers, cookies);
+  if (!flash) {
+    return new Response(null, { ...responseInit, status, headers });
+  }
+  const flashed = flashCookie(flash).then(cookie => {
+    appendCookies(headers, [cookie]);
+    return new Response(null, { ...responseInit, status, headers });
+  });
+  return flashed;
+};
+
+// The content types for common file extensions. Anything else is sent
+// as `application/octet-stream`.
+const MIME_TYPES: Record<string, string> = {
+  avif: 'image/avif',
+  css: 'text/css',
+  csv: 'text/csv',
+  gif: 'image/gif',
+  gz: 'application/gzip',
+  htm: 'text/html',
+  html: 'text/html',
+  ico: 'image/x-icon',
+  jpeg: 'image/jpeg',
+  jpg: 'image/jpeg',
+  js: 'text/javascript',
+  json: 'application/json',
+  md: 'text/markdown',
+  mjs: 'text/javascript',
+  mov: 'video/quicktime',
+  mp3: 'audio/mpeg',
+  mp4: 'video/mp4',
+  ogg: 'audio/ogg',
+  otf: 'font/otf',
+  pdf: 'application/pdf',
+  png: 'image/png',
+  svg: 'image/svg+xml',
+  tar: 'application/x-tar',
+  ttf: 'font/ttf',
+  txt: 'text/plain',
+  wasm: 'application/wasm',
+  wav: 'audio/wav',
+  webm: 'video/webm',
+  webp: 'image/webp',
+  woff: 'font/woff',
+  woff2: 'font/woff2',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  xml: 'application/xml',
+  zip: 'application/zip',
+};
+
+const contentTypeOf = (filename?: string) => {
+  const extension = filename?.split('.').pop()?.toLowerCase();
+  const type = (extension && MIME_TYPES[extension]) || 'application/octet-stream';
+  return /^text\/|\/(json|xml|javascript)$|\+xml$/.test(type) ? `${type}; charset=utf-8` : type;
+};
+
+// RFC 6266 with an ASCII `filename` for old clients and an RFC 8187
+// encoded `filename*` when the name isn't plain ASCII.
+const contentDisposition = (type: 'inline' | 'attachment', filename?: string) => {
+  if (!filename) {
+    return type;
+  }
+  const ascii = filename.replace(/[^\x20-\x7e]/g, '_').replace(/["\\]/g, '\\$&');
+  if (!/[^\x20-\x7e]/.test(filename)) {
+    return `${type}; filename="${ascii}"`;
+  }
+  const encoded = encodeURIComponent(filename).replace(
+    /['()*]/g,
+    char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+  return `${type}; filename="${ascii}"; filename*=UTF-8''${encoded}`;
+};
+
+type OpenedFile = {
+  body: (start?: number, end?: number) => BodyInit;
+  stream?: (start: number, end: number) => ReadableStream<Uint8Array>;
+  size?: number;
+  type?: string;
+  name?: string;
+  lastModified?: number;
+};
+
+const isRandomAccessFile = (source: FileSource): source is RandomAccessFile => {
+  return (
+    typeof (source as RandomAccessFile).read === 'function' && typeof (source as RandomAccessFile).size === 'number'
+  );
+};
+
+// Gives every kind of source the same interface. `end` is exclusive
+// like `Blob.slice`.
+const openFile = (source: FileSource): OpenedFile => {
+  if (source instanceof Uint8Array) {
+    source = new Blob([source as BlobPart]);
+  }
+  if (source instanceof Blob) {
+    const blob = source;
+    return {
+      body: (start, end) => blob.slice(start, end),
+      stream: (start, end) => blob.slice(start, end).stream() as ReadableStream<Uint8Array>,
+      size: blob.size,
+      type: blob.type || undefined,
+      name: 'name' in blob ? String(blob.name) : undefined,
+      lastModified: 'lastModified' in blob ? Number(blob.lastModified) : undefined,
+    };
+  }
+  if (isRandomAccessFile(source)) {
+    const { size, read, type, name, lastModified } = source;
+    return { body: (start = 0, end = size) => read(start, end), stream: read, size, type, name, lastModified };
+  }
+  if (Symbol.asyncIterator in source) {
+    const iterator = toAsyncIterator(source);
+    return {
+      body: () =>
+        new ReadableStream<Uint8Array>({
+          async pull(controller) {
+            const result = await iterator.next();
+            if (result.done) {
+              controller.close();
+            } else {
+              controller.enqueue(result.value);
+            }
+          },
+          cancel() {
+            iterator.return?.();
+          },
+        }),
+    };
+  }
+  return { body: () => source as ReadableStream<Uint8Array> };
+};
+
+type ByteRange = { start: number; end: number };
+
+// Requests for more ranges than this, after overlapping and adjacent
+// ranges are merged, are answered with the whole file.
+const MAX_RANGES = 16;
+
+// Sorts the ranges and merges the ones that overlap or touch, so a
+// request can't ask for the same bytes many times over.
+const mergeRanges = (ranges: ByteRange[]) => {
+  const merged: ByteRange[] = [];
+  for (const range of [...ranges].sort((a, b) => a.start - b.start)) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end + 1) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+};
+
+// Parses a `Range` header into inclusive byte ranges. Returns
+// `undefined` when the header should be ignored and an empty list
+// when none of the ranges can be satisfied.
+const parseRange = (header: string, size: number) => {
+  const match = /^bytes=(.+)$/i.exec(header.trim());
+  if (!match) {
+    return;
+  }
+  const ranges: ByteRange[] = [];
+  for (const spec of match[1].split(',')) {
+    const [, first, last] = /^\s*(\d*)\s*-\s*(\d*)\s*$/.exec(spec) || [];
+    if (first === undefined || (!first && !last) || (first && last && Number(last) < Number(first))) {
+      return;
+    }
+    if (!first) {
+      if (Number(last) > 0 && size > 0) {
+        ranges.push({ start: Math.max(size - Number(last), 0), end: size - 1 });
+      }
+    } else if (Number(first) < size) {
+      ranges.push({ start: Number(first), end: last ? Math.min(Number(last), size - 1) : size - 1 });
+    }
+  }
+  const merged = mergeRanges(ranges);
+  return merged.length > MAX_RANGES ? undefined : merged;
+};
+
+// Reads each part in turn. Parts are either bytes or a function that
+// opens a stream, so only one range of the file is open at a time.
+const concatStreams = (parts: (Uint8Array | (() => ReadableStream<Uint8Array>))[]) => {
+  let reader: ReadableStreamDefaultReader<Uint8Array> | undefined;
+  let index = 0;
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      for (;;) {
+        if (reader) {
+          const result = await reader.read();
+          if (!result.done) {
+            controller.enqueue(result.value);
+            return;
+          }
+          reader = undefined;
+        }
+        if (index === parts.length) {
+          controller.close();
+          return;
+        }
+        const part = parts[index++];
+        if (part instanceof Uint8Array) {
+          controller.enqueue(part);
+          return;
+        }
+        reader = part().getReader();
+      }
+    },
+    async cancel(reason) {
+      await reader?.cancel(reason);
+    },
+  });
+};
+
+// `If-Range` only allows a range request when the file hasn't changed
+// since the client got the first part of it.
+const ifRangeMatches = (header: string, etag?: string, lastModified?: Date | string | number) => {
+  if (header.startsWith('"') || header.startsWith('W/')) {
+    return !!etag && !isWeakETag(etag) && header === etag;
+  }
+  return lastModified !== undefined && new Date(lastModified).toUTCString() === header;
+};
+
+const fileFunction = async (disposition: 'inline' | 'attachment', source: FileSource, init: FileInit = {}) => {
+  const { request, filename, contentType, etag, lastModified, ...responseInit } = init;
+  const file = openFile(source);
+  const name = filename ?? file.name;
+  const type = contentType || file.type || contentTypeOf(name);
+  const modified = lastModified ?? file.lastModified;
+  const tag = etag ? createETag('', etag) : undefined;
+  const { headers, ...rest } = toResponseInit(responseInit);
+  headers.set('Content-Type', type);
+  if (disposition === 'attachment' || name) {
+    headers.set('Content-Disposition', contentDisposition(disposition, name));
+  }
+  if (tag) {
+    headers.set('ETag', tag);
+  }
+  if (modified !== undefined) {
+    headers.set('Last-Modified', new Date(modified).toUTCString());
+  }
+
+  const precondition = request && evaluatePreconditions(request, tag, modified);
+  if (precondition) {
+    return new Response(null, { ...rest, status: precondition, headers });
+  }
+
+  const { size } = file;
+  if (size === undefined) {
+    return new Response(file.body(), { ...rest, status: 200, headers });
+  }
+  headers.set('Accept-Ranges', 'bytes');
+  const range = request?.method === 'GET' || request?.method === 'HEAD' ? request.headers.get('Range') : null;
+  const ifRange = request?.headers.get('If-Range');
+  const ranges = range && (!ifRange || ifRangeMatches(ifRange, tag, modified)) ? parseRange(range, size) : undefined;
+
+  if (!ranges) {
+    headers.set('Content-Length', String(size));
+    return new Response(file.body(), { ...rest, status: 200, headers });
+  }
+  if (!ranges.length) {
+    headers.set('Content-Range', `bytes */${size}`);
+    headers.delete('Content-Type');
+    headers.delete('Content-Disposition');
+    return new Response(null, { ...rest, status: 416, headers });
+  }
+  if (ranges.length === 1) {
+    const [{ start, end }] = ranges;
+    headers.set('Content-Range', `bytes ${start}-${end}/${size}`);
+    headers.set('Content-Length', String(end - start + 1));
+    return new Response(file.body(start, end + 1), { ...rest, status: 206, headers });
+  }
+
+  const boundary = randomId().replace(/-/g, '');
+  const encoder = new TextEncoder();
+  const parts: (Uint8Array | (() => ReadableStream<Uint8Array>))[] = [];
+  let length = 0;
+  const push = (text: string) => {
+    const bytes = encoder.encode(text);
+    parts.push(bytes);
+    length += bytes.length;
+  };
+  for (const { start, end } of ranges) {
+    push(`--${boundary}\r\nContent-Type: ${type}\r\nContent-Range: bytes ${start}-${end}/${size}\r\n\r\n`);
+    parts.push(() => file.stream!(start, end + 1));
+    length += end - start + 1;
+    push('\r\n');
+  }
+  push(`--${boundary}--\r\n`);
+  headers.set('Content-Type', `multipart/byteranges; boundary=${boundary}`);
+  headers.set('Content-Length', String(length));
+  return new Response(concatStreams(parts), { ...rest, status: 206, headers });
+};
+
+// 2XX
+/**
+ * This is a shortcut for creating `application/json` responses with
+ * `status: 200`. Converts `data` into JSON when all the given
+ * promises have been fulfilled. The serialized JSON body is an object
+ * that has the same key names as the promises object argument. If any
+ * of the values in the object are not promises, they will simply be
+ * copied over to the fulfilled object.
+ *
+ * This works similar to `Promise.all([])`, but takes an object
+ * instead of an array for its promises argument
+ *
+ *
+ * ```ts
+ * import { ok } from 'remix-response';
+ * export const loader = async () => {
+ *   return ok({
+ *     hello: 'world',
+ *     promise: Promise.resolve('result'),
+ *   });
+ * };
+ * ```
+ *
+ * @param data - A JavaScript object that will be serialized as JSON.
+ * @param init? - An optional RequestInit configuration object.
+ */
+export const ok: ResponseFunction = responseFunction.bind(null, 200);
+
+/**
+ * This is a shortcut for creating `application/json` responses with
+ * `status: 201`. Converts `data` into JSON when all the given
+ * promises have been fulfilled. The serialized JSON body is an object
+ * that has the same key names as the promises object argument. If any
+ * of the values in the object are not promises, they will simply be
+ * copied over to the fulfilled object.
+ *
+ * ```ts
+ * import { created } from 'remix-response';
+ * export const action = async () => {
+ *   return created({
+ *     status: 'new',
+ *     id: Promise.resolve(1),
+ *   });
+ * };
+ * ```
+ *
+ * @param data - A JavaScript object that will be serialized as JSON.
+ * @param init? - An optional RequestInit configuration object.
+ */
+export const created: ResponseFunction = responseFunction.bind(null, 201);
+
+/**
+ * This is a shortcut for creating `application/json` responses with
+ * `status: 202`. Converts `data` into JSON when all the given
+ * promises have been fulfilled. The serialized JSON body is an object
+ * that has the same key names as the promises object argument. If any
+ * of the values in the object are not promises, they will simply be
+ * copied over to the fulfilled object.
+ *
+ * This indicates that the request has been accepted for processing,
+ * but the processing has not been completed. It is commonly used for
+ * work that is queued and handled by a background job.
+ *
+ * ```ts
+ * import { accepted } from 'remix-response';
+ * export async function action() {
+ *   return accepted({
+ *     jobId: Promise.resolve('a1b2c3'),
+ *   });
+ * };
+ * ```
+ *
+ * @param data - A JavaScript object that will be serialized as JSON.
+ * @param init? - An optional RequestInit configuration object.
+ */
+export const accepted: ResponseFunction = responseFunction.bind(null, 202);
+
+/**
+ * This is a shortcut for creating `application/json` responses with
+ * `status: 203`. Converts `data` into JSON when all the given
+ * promises have been fulfilled. The serialized JSON body is an object
+ * that has the same key names as the promises object argument. If any
+ * of the values in the object are not promises, they will simply be
+ * copied over to the fulfilled object.
+ *
+ * This indicates that the returned data is not exactly the data
+ * available from the origin server, but is collected from a local or
+ * third-party copy, like a transforming proxy.
+ *
+ * ```ts
+ * import { nonAuthoritativeInformation } from 'remix-response';
+ * export async function loader() {
+ *   return nonAuthoritativeInformation({
+ *     listings: Promise.resolve([]),
+ *   });
+ * };
+ * ```
+ *
+ * @param data - A JavaScript object that will be serialized as JSON.
+ * @param init? - An optional RequestInit configuration object.
+ */
+export const nonAuthoritativeInformation: ResponseFunction = responseFunction.bind(null, 203);
+
+/**
+ * This is a shortcut for creating a responses with `status: 204`.
+ *
+ * ```ts
+ * import { created } from 'remix-response';
+ * export const action = async () => {
+ *   return noContent();
+ * };
+ * ```
+ *
+ * @param init? - An optional RequestInit configuration object.
+ */
+export const noContent: EmptyFunction = emptyFunction.bind(null, 204);
+
+/**
+ * This is a shortcut for creating a responses with `status: 205`,
+ * which tells the client to reset the form that sent the request.
+ * Like `noContent`, the response has no body.
+ *
+ * ```ts
+ * import { resetContent } from 'remix-response';
+ * export const action = async () => {
+ *   return resetContent();
+ * };
+ * ```
+ *
+ * @param init? - An optional RequestInit configuration object.
+ */
+export const resetContent: EmptyFunction = emptyFunction.bind(null, 205);
+
+/**
+ * This is a shortcut for creating `application/json` responses with
+ * `status: 206`. Converts `data` into JSON when all the given
+ * promises have been fulfilled. The serialized JSON body is an object
+ * that has the same key names as the promises object argument. If any
+ * of the values in the object are not promises, they will simply be
+ * copied over to the fulfilled object.
+ *
+ * ```ts
+ * import { partialContent } from 'remix-response';
+ * export const loader = async () => {
+ *   return partialContent({
+ *     title: 'RFC 2616 - Hypertext Transfer Protocol -- HTTP/1.1',
+ *     id: Promise.resolve(2616),
+ *   });
+ * };
+ * ```
+ *
+ * @param data - A JavaScript object that will be serialized as JSON.
+ * @param init? - An optional RequestInit configuration object.
+ */
+export const partialContent: ResponseFunction = responseFunction.bind(null, 206);
+
+/**
+ * This is a shortcut for creating `application/json` responses with
+ * `status: 207`. Converts `data` into JSON when all the given
+ * promises have been fulfilled. The serialized JSON body is an object
+ * that has the same key names as the promises object argument. If any
+ * of the values in the object are not promises, they will simply be
+ * copied over to the fulfilled object.
+ *
+ * This conveys information about multiple resources, for situations
+ * where multiple status codes might be appropriate, like a batch
+ * update where some of the items failed.
+ *
+ * ```ts
+ * import { multiStatus } from 'remix-response';
+ * export async function action() {
+ *   return multiStatus({
+ *     results: Promise.resolve([{ id: 1, status: 200 }, { id: 2, status: 409 }]),
+ *   });
+ * };
+ * ```
+ *
+ * @param data - A JavaScript object that will be serialized as JSON.
+ * @param init? - An optional RequestInit configuration object.
+ */
+export const multiStatus: ResponseFunction = responseFunction.bind(null, 207);
+
+/**
+ * This is a shortcut for creating `application/json` responses with
+ * `status: 208`. Converts `data` into JSON when all the given
+ * promises have been fulfilled. The serialized JSON body is an object
+ * that has the same key names as the promises object argument. If any
+ * of the values in the object are not promises, they will simply be
+ * copied over to the fulfilled object.
+ *
+ * This is used inside a `207 Multi-Status` response to avoid
+ * repeatedly enumerating the internal members of multiple bindings to
+ * the same collection.
+ *
+ * ```ts
+ * import { alreadyReported } from 'remix-response';
+ * export async function action() {
+ *   return alreadyReported({
+ *     results: Promise.resolve([]),
+ *   });
+ * };
+ * ```
+ *
+ * @param data - A JavaScript object that will be serialized as JSON.
+ * @param init? - An optional RequestInit configuration object.
+ */
+export const alreadyReported: ResponseFunction = responseFunction.bind(null, 208);
+
+/**
+ * This is a shortcut for creating `application/json` responses with
+ * `status: 226`. Converts `data` into JSON when all the given
+ * promises have been fulfilled. The serialized JSON body is an object
+ * that has the same key names as the promises object argument. If any
+ * of the values in the object are not promises, they will simply be
+ * copied over to the fulfilled object.
+ *
+ * This indicates the server has fulfilled a `GET` request for the
+ * resource, and the response is a representation of the result of one
+ * or more instance-manipulations applied to the current instance.
+ *
+ * ```ts
+ * import { imUsed } from 'remix-response';
+ * export async function loader() {
+ *   return imUsed({
+ *     delta: Promise.resolve([]),
+ *   });
+ * };
+ * ```
+ *
+ * @param data - A JavaScript object that will be serialized as JSON.
+ * @param init? - An optional RequestInit configuration object.
+ */
+export const imUsed: ResponseFunction = responseFunction.bind(null, 226);
+
+/**
+ * This is a shortcut for creating a `text/event-stream` response
+ * with `status: 200` for Server-Sent Events. Events are read from
+ * `source`, which is either an async iterable of events or a
+ * subscribe function. The subscribe function is called with a `send`
+ * and a `close` callback and may return a cleanup function that is
+ * called when the stream closes.
+ *
+ * The stream is closed when the async iterable is done, when `close`
+ * is called or when the `signal` is aborted. If the async iterable
+ * throws, the error is sent as an `error` event before closing.
+ *
+ * ```ts
+ * import type { LoaderArgs } from "@remix-run/node";
+ * import { eventStream } from 'remix-response';
+ * export const loader = async ({ request }: LoaderArgs) => {
+ *   return eventStream((send) => {
+ *     const listener = (message) => send({ event: 'message', data: message });
+ *     emitter.on('message', listener);
+ *     return () => emitter.off('message', listener);
+ *   }, { signal: request.signal, heartbeat: 15000 });
+ * };
+ * ```
+ *
+ * @param source - An async iterable of events or a subscribe function.
+ * @param init? - An optional RequestInit configuration object.
+ */
+export const eventStream = (source: AsyncIterable<ServerSentEvent> | EventStreamSubscribe, init?: EventStreamInit) => {
+  const { signal, heartbeat, retry, errorPolicy, cookies, cache, ...responseInit } = init || {};
+  const replacer = createErrorReplacer(errorPolicy);
+  const encoder = new TextEncoder();
+  // The headers are built first so an invalid option throws before
+  // the source is subscribed to.
+  const headers = mergeHeaders({ 'Cache-Control': 'no-cache' }, responseInit.headers);
+  if (cache) {
+    setCacheHeaders(headers, cache);
+  }
+  headers.set('Content-Type', EVENT_STREAM_CONTENT_TYPE);
+  appendCookies(headers, cookies);
+
+  let closed = false;
+  let cancelled = false;
+  let cleanup: void | (() => void) = undefined;
+  let timer: ReturnType<typeof setInterval> | undefined;
+  // Assigned synchronously by `start`.
+  let controller!: ReadableStreamDefaultController<Uint8Array>;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(streamController) {
+      controller = streamController;
+    },
+    // The client went away before the source finished.
+    cancel() {
+      cancelled = true;
+      close();
+    },
+  });
+
+  const send = (event: ServerSentEvent) => {
+    if (!closed) {
+      controller.enqueue(encoder.encode(formatEvent(event, replacer)));
+    }
+  };
+
+  const close = () => {
+    if (closed) {
+      return;
+    }
+    closed = true;
+    clearInterval(timer);
+    signal?.removeEventListener('abort', close);
+    cleanup?.();
+    if (!cancelled) {
+      controller.close();
+    }
+  };
+
+  if (retry !== undefined) {
+    send({ retry });
+  }
+  if (heartbeat) {
+    timer = setInterval(() => send({ comment: '' }), heartbeat);
+  }
+  signal?.addEventListener('abort', close);
+
+  if (signal?.aborted) {
+    close();
+  } else if (typeof source === 'function') {
+    try {
+      cleanup = source(send, close);
+    } catch (error) {
+      // Stops the heartbeat and the abort listener, but leaves the
+      // stream open so it can be errored.
+      cancelled = true;
+      close();
+      controller.error(error);
+    }
+    // `close` may have been called before the cleanup was returned.
+    if (closed) {
+      cleanup?.();
+    }
+  } else {
+    const iterator = source[Symbol.asyncIterator]();
+    cleanup = () => {
+      iterator.return?.();
+    };
+    (async () => {
+      try {
+        while (!closed) {
+          const result = await iterator.next();
+          if (result.done) {
+            break;
+          }
+          send(result.value);
+        }
+      } catch (error) {
+        send({ event: 'error', data: error });
+      }
+      close();
+    })();
+  }
+
+  return new Response(stream, { ...responseInit, status: 200, headers });
+};
+
+/**
+ * Creates a response for a file that is shown in the browser. The
+ * `Content-Type` is inferred from the `Blob` or the extension of the
+ * filename. When the `request` is given, `Range` requests are answered
+ * with a `206` with one or more ranges, or a `416` when the ranges
+ * can't be satisfied, and the conditional request headers are
+ * evaluated. To send a file from disk, use `file` from
+ * `remix-response/node`, which also accepts a path.
+ *
+ * ```ts
+ * import type { LoaderArgs } from "@remix-run/node";
+ * import { file } from 'remix-response';
+ * export const loader = async ({ request, params }: LoaderArgs) => {
+ *   return file(await getVideo(params.id), { request, cache: 'public-short' });
+ * };
+ * ```
+ *
+ * @param source - A `Blob`, `Buffer`, `RandomAccessFile` or stream.
+ * @param init? - An optional RequestInit configuration object.
+ */
+export const file = (source: FileSource, init?: FileInit): Promise<Response> => fileFunction('inline', source, init);
+
+/**
+ * Like `file`, but the `Content-Disposition` tells the browser to
+ * save the file instead of showing it. Non-ASCII filenames are
+ * encoded so they are saved with the right name.
+ *
+ * ```ts
+ * import type { LoaderArgs } from "@remix-run/node";
+ * import { download } from 'remix-response';
+ * export const loader = async ({ request }: LoaderArgs) => {
+ *   const csv = await exportOrders();
+ *   return download(new Blob([csv], { type: 'text/csv' }), { request, filename: 'bestellübersicht.csv' });
+ * };
+ * ```
+ *
+ * @param source - A `Blob`, `Buffer`, `RandomAccessFile` or stream.
+ * @param init? - An optional RequestInit configuration object.
+ */
+export const download = (source: FileSource, init?: FileInit): Promise<Response> =>
+  fileFunction('attachment', source, init);
+
+// Reads a `ReadableStream` like an async iterable, which not every
+// runtime supports natively.
+const toAsyncIterator = <T>(source: AsyncIterable<T> | ReadableStream<T>): AsyncIterator<T> => {
+  if (Symbol.asyncIterator in source) {
+    return (source as AsyncIterable<T>)[Symbol.asyncIterator]();
+  }
+  const reader = (source as ReadableStream<T>).getReader();
+  return {
+    next: () => reader.read() as Promise<IteratorResult<T>>,
+    return: async () => {
+      await reader.cancel();
+      return { done: true, value: undefined };
+    },
+  };
+};
+
+/**
+ * Streams each item of `source` as a line of JSON with the
+ * `application/x-ndjson` content type, so large results don't have to
+ * be held in memory. The next item is only read when the client is
+ * ready for more data.
+ *
+ * If `source` throws, the error is sent as a final `{"error": ...}`
+ * line using the `errorPolicy` and the stream is closed. The source is
+ * also closed when the `signal` is aborted or the client goes away.
+ *
+ * ```ts
+ * import type { LoaderArgs } from "@remix-run/node";
+ * import { ndjson } from 'remix-response';
+ * export const loader = async ({ request }: LoaderArgs) => {
+ *   return ndjson(db.orders.findAllCursor(), { signal: request.signal, errorPolicy: 'production' });
+ * };
+ * ```
+ *
+ * @param source - An async iterable or `ReadableStream` of items.
+ * @param init? - An optional RequestInit configuration object.
+ */
+export const ndjson = <T>(source: AsyncIterable<T> | ReadableStream<T>, init?: NdjsonInit) => {
+  const { serializer = jsonSerializer, errorPolicy, signal } = init || {};
+  const replacer = createErrorReplacer(errorPolicy);
+  const iterator = toAsyncIterator(source);
+  const encoder = new TextEncoder();
+
+  let closed = false;
+  let cancelled = false;
+  let controller: ReadableStreamDefaultController<Uint8Array>;
+
+  const close = () => {
+    if (closed) {
+      return;
+    }
+    closed = true;
+    signal?.removeEventListener('abort', close);
+    iterator.return?.();
+    if (!cancelled) {
+      controller.close();
+    }
+  };
+
+  // `pull` is only called when the client is ready for more data, so
+  // the next item is read on demand.
+  const stream = new ReadableStream<Uint8Array>({
+    start(streamController) {
+      controller = streamController;
+    },
+    async pull() {
+      try {
+        const result = await iterator.next();
+        if (closed) {
+          return;
+        }
+        if (result.done) {
+          close();
+          return;
+        }
+        controller.enqueue(encoder.encode(`${serializer.stringify(result.value, replacer)}\n`));
+      } catch (error) {
+        if (!closed) {
+          controller.enqueue(encoder.encode(`${serializer.stringify({ error }, replacer)}\n`));
+          close();
+        }
+      }
+    },
+    // The client went away before the source finished.
+    cancel() {
+      cancelled = true;
+      close();
+    },
+  });
+
+  signal?.addEventListener('abort', close);
+  if (signal?.aborted) {
+    close();
+  }
+
+  const responseInit = toResponseInit(init);
+  responseInit.headers.set('Content-Type', NDJSON_CONTENT_TYPE);
+  return new Response(stream, { ...responseInit, status: 200 });
+};
+
+// 3XX
+/**
+ * Returns `to` if it is a path on the same site, otherwise returns
+ * the `fallback`. Use this for user provided redirect targets like a
+ * `?redirectTo=` search param, which could otherwise send the user to
+ * another site after logging in.
+ *
+ * ```ts
+ * import type { ActionArgs } from "@remix-run/node";
+ * import { safeRedirect, seeOther } from 'remix-response';
+ * export async function action({ request }: ActionArgs) {
+ *   const formData = await request.formData();
+ *   // ...
+ *   return seeOther(safeRedirect(formData.get('redirectTo'), '/dashboard'));
+ * };
+ * ```
+ *
+ * @param to - The untrusted redirect target.
+ * @param fallback? - The path to use when `to` is not safe. Defaults to `/`.
+ */
+export const safeRedirect = (to: FormDataEntryValue | string | null | undefined, fallback = '/') => {
+  if (typeof to !== 'string' || !to.startsWith('/')) {
+    return fallback;
+  }
+  return resolveRedirect(to, {}) ?? fallback;
+};
+
+/**
+ * Reads the flash message set by a redirect helper's `flash` option.
+ * The message is `undefined` when there is no flash cookie or its
+ * signature doesn't match any of the `secrets`. The returned headers
+ * clear the cookie so the message is only shown once; pass them to
+ * the response for the request.
+ *
+ * ```ts
+ * import type { ActionArgs, LoaderArgs } from "@remix-run/node";
+ * import { ok, readFlash, seeOther } from 'remix-response';
+ * const secrets = [process.env.FLASH_SECRET];
+ *
+ * export const action = async ({ request }: ActionArgs) => {
+ *   // ...
+ *   return seeOther('/projects', { flash: { message: { toast: 'Project saved' }, secrets } });
+ * };
+ *
+ * export const loader = async ({ request }: LoaderArgs) => {
+ *   const { message, headers } = await readFlash<{ toast: string }>(request, { secrets });
+ *   return ok({ toast: message?.toast, projects: getProjects() }, { headers });
+ * };
+ * ```
+ *
+ * @param request - The request with the flash cookie
+ * @param options - The secrets, and the name and path of the cookie if they were changed
+ */
+export const readFlash = async <T = unknown>(
+  request: Request,
+  { secrets, name = FLASH_COOKIE_NAME, path = '/' }: FlashOptions
+): Promise<{ message: T | undefined; headers: Record<string, string> }> => {
+  const cookie = getCookie(request, name);
+  if (cookie === undefined) {
+    return { message: undefined, headers: {} };
+  }
+  const headers = { 'Set-Cookie': setCookie({ name, value: '', path, maxAge: 0, httpOnly: true, sameSite: 'Lax' }) };
+  // Checked first so a missing Web Crypto API isn't mistaken for a
+  // malformed cookie.
+  subtleCrypto();
+  // Anyone can send a malformed cookie, so it is treated as if there
+  // was no message.
+  try {
+    const value = await unsign(decodeURIComponent(cookie), secrets);
+    if (value === undefined) {
+      return { message: undefined, headers };
+    }
+    return { message: JSON.parse(new TextDecoder().decode(fromBase64Url(value))), headers };
+  } catch (error) {
+    return { message: undefined, headers };
+  }
+};
+
+/**
+ * This is a shortcut for creating `application/json` responses with
+ * `status: 300`. Converts `data` into JSON when all the given
+ * promises have been fulfilled. The serialized JSON body is an object
+ * that has the same key names as the promises object argument. If any
+ * of the values in the object are not promises, they will simply be
+ * copied over to the fulfilled object.
+ *
+ * This indicates the request has more than one possible response and
+ * the client should choose one of them. The body should contain the
+ * list of available representations.
+ *
+ * ```ts
+ * import { multipleChoices } from 'remix-response';
+ * export async function loader() {
+ *   return multipleChoices({
+ *     choices: Promise.resolve(['/en/about', '/es/about']),
+ *   });
+ * };
+ * ```
+ *
+ * @param data - A JavaScript object that will be serialized as JSON.
+ * @param init? - An optional RequestInit configuration object.
+ */
+export const multipleChoices: ResponseFunction = responseFunction.bind(null, 300);
+
+/**
+ * This is a shortcut for creating a redirect response with `status:
+ * 301`. The provided string will be set as the location header in the
+ * response.
+ *
+ * This should be used when the URL of the requested resource has been
+ * changed permanently. Browsers will cache this redirect.
+ *
+ * ```ts
+ * import { movedPermanently } from 'remix-response';
+ * export const loader = async () => {
+ *   return movedPermanently('https://www.example.com/');
+ * };
+ * ```
+ *
+ * @param url - A url to redirect the request to
+ * @param init? - Optional headers, flash message and safe redirect options
+ */
+export const movedPermanently: RedirectFunction = redirectFunction.bind(null, 301) as RedirectFunction;
+
+/**
+ * This is a shortcut for creating a redirect response with `status:
+ * 302`. The provided string will be set as the location header in the
+ * response.
+ *
+ * This should be used when the URI of requested resource has been
+ * changed temporarily. Browsers will not cache this redirectly and it
+ * is commonly used in action functions.
+ *
+ *
+ * ```ts
+ * import { found } from 'remix-response';
+ * export const action = async () => {
+ *   return found('https://www.example.com/');
+ * };
+ * ```
+ *
+ * @param url - A url to redirect the request to
+ * @param init? - Optional headers, flash message and safe redirect options
+ */
+export const found: RedirectFunction = redirectFunction.bind(null, 302) as RedirectFunction;
+
+/**
+ * This is a shortcut for creating a redirect response with `status:
+ * 303`. The provided string will be set as the location header in the
+ * response.
+ *
+ * This indicates that the redirects don't link to the requested
+ * resource itself, but to another page (such as a confirmation page,
+ * a representation of a real-world object or an upload-progress
+ * page). This response code is often sent back as a result of PUT or
+ * POST. The method used to display this redirected page is always
+ * GET.
+ *
+ * ```ts
+ * import { seeOther } from 'remix-response';
+ * export const action = async () => {
+ *   return seeOther('https://www.example.com/');
+ * };
+ * ```
+ *
+ * @param url - A url to redirect the request to
+ * @param init? - Optional headers, flash message and safe redirect options
+ */
+export const seeOther: RedirectFunction = redirectFunction.bind(null, 303) as RedirectFunction;
+
+/**
+ * This is a shortcut for creating a response with `status: 304`,
+ * which has no body.
+ *
+ * This is used for caching purposes. It tells the client that the
+ * response has not been modified, so the client can continue to use
+ * the same cached version of the response.
+ *
+ * To send a `304` automatically when the client's cached response is
+ * still fresh, pass the `request` along with `etag` or `lastModified`
+ * to `ok` instead.
+ *
+ * ```ts
+ * import { notModified } from 'remix-response';
+ * export const loader = async ({ request }: LoaderArgs) => {
+ *   if (request.headers.get('If-Modified-Since') === 'Wed, 21 Oct 2015 07:28:00 GMT') {
+ *     return notModified({ headers: { 'Last-Modified': 'Wed, 21 Oct 2015 07:28:00 GMT' } });
+ *   }
+ * };
+ * ```
+ *
+ * @param init? - An optional RequestInit configuration object.
+ */
+export const notModified: EmptyFunction = emptyFunction.bind(null, 304);
+
+/**
+ * This is a shortcut for creating a redirect response with `status:
+ * 307`. The provided string will be set as the location header in the
+ * response.
+ *
+ * This should be used to direct the client to get the requested
+ * resource at another URI with the same method that was used in the
+ * prior request. This has the same semantics as the `302 Found` HTTP
+ * response code, with the exception that the user agent must not
+ * change the HTTP method used: if a `POST` was used in the first
+ * request, a `POST` must be used in the second request.
+ *
+ *
+ * ```ts
+ * import { temporaryRedirect } from 'remix-response';
+ * export const action = async () => {
+ *   return temporaryRedirect('https://www.example.com/');
+ * };
+ * ```
+ *
+ * @param url - A url to redirect the request to
+ * @param init? - Optional headers, flash message and safe redirect options
+ */
+export const temporaryRedirect: RedirectFunction = redirectFunction.bind(null, 307) as RedirectFunction;
+
+/**
+ * This is a shortcut for creating a redirect response with `status:
+ * 308`. The provided string will be set as the location header in the
+ * response.
+ *
+ * This means that the resource is now permanently located at another
+ * URI. This has the same semantics as the `301 Moved Permanently` HTTP
+ * response code, with the exception that the user agent must not
+ * change the HTTP method used: if a `POST` was used in the first
+ * request, a `POST` must be used in the second request.
+ *
+ * ```ts
+ * import { permanentRedirect } from 'remix-response';
+ * export const action = async () => {
+ *   return permanentRedirect('https://www.example.com/');
+ * };
+ * ```
+ *
+ * @param url - A url to redirect the request to
+ * @param init? - Optional headers, flash message and safe redirect options
+ */
+export const permanentRedirect: RedirectFunction = redirectFunction.bind(null, 308) as RedirectFunction;
+
+// 4XX
+/**
+ * This is a shortcut for creating `application/json` responses with
+ * `status: 400`. Converts `data` into JSON when all the given
+ * promises have been fulfilled. The serialized JSON body is an object
+ * that has the same key names as the promises object argument. If any
+ * of the values in the object are not promises, they will simply be
+ * copied over to the fulfilled object.
+ *
+ * This should be used when the action cannot or will not process the
+ * request due to something that is perceived to be a client error.
+ *
+ * ```ts
+ * import type { ActionArgs } from "@remix-run/node";
+ * import { badRequest } from 'remix-response';
+ * export async function action({ request }: ActionArgs) {
+ *   return badRequest({
+ *     form: request.formData(),
+ *     errors: Promise.resolve({name: 'missing'}),
+ *   });
+ * };
+ * ```
+ *
+ * @param data - A JavaScript object that will be serialized as JSON.
+ * @param init? - An optional RequestInit configuration object.
+ */
+export const badRequest: ResponseFunction = responseFunction.bind(null, 400);
+
+/**
+ * This is a shortcut for creating `application/json` responses with
+ * `status: 401`. Converts `data` into JSON when all the given
+ * promises have been fulfilled. The serialized JSON body is an object
+ * that has the same key names as the promises object argument. If any
+ * of the values in the object are not promises, they will simply be
+ * copied over to the fulfilled object.
+ *
+ * This should be used when the action cannot or will not process the
+ * request because the user is unauthenticated.
+ *
+ * Although the HTTP standard specifies "unauthorized", semantically
+ * this response means "unauthenticated". That is, the client must
+ * authenticate itself to get the requested response.
+ *
+ * ```ts
+ * import type { ActionArgs } from "@remix-run/node";
+ * import { unauthorized } from 'remix-response';
+ * export async function action({ request }: ActionArgs) {
+ *   return unauthorized({
+ *     form: request.formData(),
+ *     errors: Promise.resolve({user: 'missing'}),
+ *   });
+ * };
+ * ```
+ *
+ * @param data - A JavaScript object that will be serialized as JSON.
+ * @param init? - An optional RequestInit configuration object.
+ */
+export const unauthorized: ResponseFunction = responseFunction.bind(null, 401);
+
+/**
+ * This is a shortcut for creating `application/json` responses with
+ * `status: 402`. Converts `data` into JSON when all the given
+ * promises have been fulfilled. The serialized JSON body is an object
+ * that has the same key names as the promises object argument. If any
+ * of the values in the object are not promises, they will simply be
+ * copied over to the fulfilled object.
+ *
+ * This is reserved for future use, but is commonly used to indicate
+ * the requested content is not available until the client makes a
+ * payment.
+ *
+ * ```ts
+ * import { paymentRequired } from 'remix-response';
+ * export async function loader() {
+ *   return paymentRequired({
+ *     plans: Promise.resolve(['pro', 'enterprise']),
+ *   });
+ * };
+ * ```
+ *
+ * @param data - A JavaScript object that will be serialized as JSON.
+ * @param init? - An optional RequestInit configuration object.
+ */
+export const paymentRequired: ResponseFunction = responseFunction.bind(null, 402);
+
+/**
+ * This is a shortcut for creating `application/json` responses with
+ * `status: 403`. Converts `data` into JSON when all the given
+ * promises have been fulfilled. The serialized JSON body is an object
+ * that has the same key names as the promises object argument. If any
+ * of the values in the object are not promises, they will simply be
+ * copied over to the fulfilled object.
+ *
+ * This should be used when the action cannot or will not process the
+ * request because the user does not have access rights to the
+ * content; that is, it is unauthorized, so the server is refusing to
+ * give the requested resource. Unlike `401 Unauthorized`, the client's
+ * identity is known to the server.
+ *
+ * ```ts
+ * import type { ActionArgs } from "@remix-run/node";
+ * import { forbidden } from 'remix-response';
+ * export async function action({ request }: ActionArgs) {
+ *   return forbidden({
+ *     form: request.formData(),
+ *     errors: Promise.resolve({user: 'missing'}),
+ *   });
+ * };
+ * ```
+ *
+ * @param data - A JavaScript object that will be serialized as JSON.
+ * @param init? - An optional RequestInit configuration object.
+ */
+export const forbidden: ResponseFunction = responseFunction.bind(null, 403);
+
+/**
+ * This is a shortcut for creating `application/json` responses with
+ * `status: 404`. Converts `data` into JSON when all the given
+ * promises have been fulfilled. The serialized JSON body is an object
+ * that has the same key names as the promises object argument. If any
+ * of the values in the object are not promises, they will simply be
+ * copied over to the fulfilled object.
+ *
+ * This should be used when the loader find the requested resource. In
+ * the browser, this means the URL is not recognized and the brower
+ * will not suggest the URL as an autocomplete option int he future
+ *
+ * ```ts
+ * import { notFound } from 'remix-response';
+ * export async function loader() {
+ *   return notFound({
+ *     recommendations: []
+ *     fromTheBlog: Promise.resolve([]),
+ *   });
+ * };
+ * ```
+ *
+ * @param data - A JavaScript object that will be serialized as JSON.
+ * @param init? - An optional RequestInit configuration object.
+ */
+export const notFound: ResponseFunction = responseFunction.bind(null, 404);
+
+/**
+ * This is a shortcut for creating `application/json` responses with
+ * `status: 405`. Converts `data` into JSON when all the given
+ * promises have been fulfilled. The serialized JSON body is an object
+ * that has the same key names as the promises object argument. If any
+ * of the values in the object are not promises, they will simply be
+ * copied over to the fulfilled object.
+ *
+ * This should be used when the request method is known by the server
+ * but is not supported by the target resource. For example, an API
+ * may not allow calling DELETE to remove a resource.
+ *
+ * ```ts
+ * import { methodNotAllowed } from 'remix-response';
+ * export async function action() {
+ *   return methodNotAllowed({
+ *     allowedMethods: Promise.resolve(['GET', 'POST']),
+ *   });
+ * };
+ * ```
+ *
+ * @param data - A JavaScript object that will be serialized as JSON.
+ * @param init? - An optional RequestInit configuration object.
+ */
+export const methodNotAllowed: ResponseFunction = responseFunction.bind(null, 405);
+
+/**
+ * This is a shortcut for creating `application/json` responses with
+ * `status: 406`. Converts `data` into JSON when all the given
+ * promises have been fulfilled. The serialized JSON body is an object
+ * that has the same key names as the promises object argument. If any
+ * of the values in the object are not promises, they will simply be
+ * copied over to the fulfilled object.
+ *
+ * This indicates that the server cannot produce a response matching
+ * the list of acceptable values defined in the request's proactive
+ * content negotiation headers, and that the server is unwilling to
+ * supply a default representation.
+ *
+ * Proactive content negotiation headers include: `Accept`, `Accept-Encoding`, `Accept-Language`.
+ *
+ * In practice, this error is very rarely used. Instead of responding
+ * using this error code, which would be cryptic for the end user and
+ * difficult to fix, servers ignore the relevant header and serve an
+ * actual page to the user. It is assumed that even if the user won't
+ * be completely happy, they will prefer this to an error code.
+ *
+ * If a server returns such an error status, the body of the message
+ * should contain the list of the available representations of the
+ * resources, allowing the user to choose among them.
+ *
+ * ```ts
+ * import { notAcceptable } from 'remix-response';
+ * export async function action() {
+ *   return notAcceptable({
+ *     allowedLanguage: Promise.resolve(['US_en', 'US_es']),
+ *   });
+ * };
+ * ```
+ *
+ * @param data - A JavaScript object that will be serialized as JSON.
+ * @param init? - An optional RequestInit configuration object.
+ */
+export const notAcceptable: ResponseFunction = responseFunction.bind(null, 406);
+
+/**
+ * This is a shortcut for creating `application/json` responses with
+ * `status: 407`. Converts `data` into JSON when all the given
+ * promises have been fulfilled. The serialized JSON body is an object
+ * that has the same key names as the promises object argument. If any
+ * of the values in the object are not promises, they will simply be
+ * copied over to the fulfilled object.
+ *
+ * This is similar to `401 Unauthorized` but authentication is needed
+ * to be done by a proxy.
+ *
+ * ```ts
+ * import { proxyAuthenticationRequired } from 'remix-response';
+ * export async function loader() {
+ *   return proxyAuthenticationRequired({
+ *     error: Promise.resolve('Proxy authentication required.'),
+ *   });
+ * };
+ * ```
+ *
+ * @param data - A JavaScript object that will be serialized as JSON.
+ * @param init? - An optional RequestInit configuration object.
+ */
+export const proxyAuthenticationRequired: ResponseFunction = responseFunction.bind(null, 407);
+
+/**
+ * This is a shortcut for creating `application/json` responses with
+ * `status: 408`. Converts `data` into JSON when all the given
+ * promises have been fulfilled. The serialized JSON body is an object
+ * that has the same key names as the promises object argument. If any
+ * of the values in the object are not promises, they will simply be
+ * copied over to the fulfilled object.
+ *
+ * This indicates the server would like to shut down the unused
+ * connection because the client took too long to send the request.
+ *
+ * ```ts
+ * import { requestTimeout } from 'remix-response';
+ * export async function action() {
+ *   return requestTimeout({
+ *     error: Promise.resolve('Request took too long.'),
+ *   });
+ * };
+ * ```
+ *
+ * @param data - A JavaScript object that will be serialized as JSON.
+ * @param init? - An optional RequestInit configuration object.
+ */
+export const requestTimeout: ResponseFunction = responseFunction.bind(null, 408);
+
+/**
+ * This is a shortcut for creating `application/json` responses with
+ * `status: 409`. Converts `data` into JSON when all the given
+ * promises have been fulfilled. The serialized JSON body is an object
+ * that has the same key names as the promises object argument. If any
+ * of the values in the object are not promises, they will simply be
+ * copied over to the fulfilled object.
+ *
+ * This should be used to indicate aa request conflicts with the
+ * current state of the server.
+ *
+ * ```ts
+ * import { conflict } from 'remix-response';
+ * export async function action() {
+ *   return conflict({
+ *     error: Promise.resolve({ id: 'duplicate id' }),
+ *   });
+ * };
+ * ```
+ *
+ * @param data - A JavaScript object that will be serialized as JSON.
+ * @param init? - An optional RequestInit configuration object.
+ */
+export const conflict: ResponseFunction = responseFunction.bind(null, 409);
+
+/**
+ * This is a shortcut for creating `application/json` responses with
+ * `status: 410`. Converts `data` into JSON when all the given
+ * promises have been fulfilled. The serialized JSON body is an object
+ * that has the same key names as the promises object argument. If any
+ * of the values in the object are not promises, they will simply be
+ * copied over to the fulfilled object.
+ *
+ * This should be used when a resource has been permanently deleted
+ * from server, with no forwarding address. Clients are expected to
+ * remove their caches and links to the resource.
+ *
+ * ```ts
+ * import { gone } from 'remix-response';
+ * export async function action() {
+ *   return gone({
+ *     error: Promise.resolve('resource deleted'),
+ *   });
+ * };
+ * ```
+ *
+ * @param data - A JavaScript object that will be serialized as JSON.
+ * @param init? - An optional RequestInit configuration object.
+ */
+export const gone: ResponseFunction = responseFunction.bind(null, 410);
+
+/**
+ * This is a shortcut for creating `application/json` responses with
+ * `status: 411`. Converts `data` into JSON when all the given
+ * promises have been fulfilled. The serialized JSON body is an object
+ * that has the same key names as the promises object argument. If any
+ * of the values in the object are not promises, they will simply be
+ * copied over to the fulfilled object.
+ *
+ * This indicates the server rejected the request because the
+ * `Content-Length` header field is not defined and the server requires
+ * it.
+ *
+ * ```ts
+ * import { lengthRequired } from 'remix-response';
+ * export async function action() {
+ *   return lengthRequired({
+ *     error: Promise.resolve('Missing Content-Length header.'),
+ *   });
+ * };
+ * ```
+ *
+ * @param data - A JavaScript object that will be serialized as JSON.
+ * @param init? - An optional RequestInit configuration object.
+ */
+export const lengthRequired: ResponseFunction = responseFunction.bind(null, 411);
+
+/**
+ * This is a shortcut for creating `application/json` responses with
+ * `status: 412`. Converts `data` into JSON when all the given
+ * promises have been fulfilled. The serialized JSON body is an object
+ * that has the same key names as the promises object argument. If any
+ * of the values in the object are not promises, they will simply be
+ * copied over to the fulfilled object.
+ *
+ * This should be used to indicated the client sent preconditions in
+ * its headers (usually `If-Unmodified-Since` or `If-None-Match`) which
+ * the server does not meet.
+ *
+ * ```ts
+ * import { preconditionFailed } from 'remix-response';
+ * export async function action() {
+ *   return preconditionFailed({
+ *     modifiedSince: Promise.resolve(Date.now()),
+ *   });
+ * };
+ * ```
+ *
+ * @param data - A JavaScript object that will be serialized as JSON.
+ * @param init? - An optional RequestInit configuration object.
+ */
+export const preconditionFailed: ResponseFunction = responseFunction.bind(null, 412);
+
+/**
+ * This is a shortcut for creating `application/json` responses with
+ * `status: 413`. Converts `data` into JSON when all the given
+ * promises have been fulfilled. The serialized JSON body is an object
+ * that has the same key names as the promises object argument. If any
+ * of the values in the object are not promises, they will simply be
+ * copied over to the fulfilled object.
+ *
+ * This indicates the request body is larger than limits defined by
+ * the server.
+ *
+ * ```ts
+ * import { contentTooLarge } from 'remix-response';
+ * export async function action() {
+ *   return contentTooLarge({
+ *     maxSize: Promise.resolve(1024 * 1024),
+ *   });
+ * };
+ * ```
+ *
+ * @param data - A JavaScript object that will be serialized as JSON.
+ * @param init? - An optional RequestInit configuration object.
+ */
+export const contentTooLarge: ResponseFunction = responseFunction.bind(null, 413);
+
+/**
+ * This is a shortcut for creating `application/json` responses with
+ * `status: 414`. Converts `data` into JSON when all the given
+ * promises have been fulfilled. The serialized JSON body is an object
+ * that has the same key names as the promises object argument. If any
+ * of the values in the object are not promises, they will simply be
+ * copied over to the fulfilled object.
+ *
+ * This indicates the URI requested by the client is longer than the
+ * server is willing to interpret.
+ *
+ * ```ts
+ * import { uriTooLong } from 'remix-response';
+ * export async function loader() {
+ *   return uriTooLong({
+ *     error: Promise.resolve('Too many search filters.'),
+ *   });
+ * };
+ * ```
+ *
+ * @param data - A JavaScript object that will be serialized as JSON.
+ * @param init? - An optional RequestInit configuration object.
+ */
+export const uriTooLong: ResponseFunction = responseFunction.bind(null, 414);
+
+/**
+ * This is a shortcut for creating `application/json` responses with
+ * `status: 415`. Converts `data` into JSON when all the given
+ * promises have been fulfilled. The serialized JSON body is an object
+ * that has the same key names as the promises object argument. If any
+ * of the values in the object are not promises, they will simply be
+ * copied over to the fulfilled object.
+ *
+ * This indicates the media format of the requested data is not
+ * supported by the server, so the server is rejecting the request.
+ *
+ * ```ts
+ * import { unsupportedMediaType } from 'remix-response';
+ * export async function action() {
+ *   return unsupportedMediaType({
+ *     supportedTypes: Promise.resolve(['image/png', 'image/jpeg']),
+ *   });
+ * };
+ * ```
+ *
+ * @param data - A JavaScript object that will be serialized as JSON.
+ * @param init? - An optional RequestInit configuration object.
+ */
+export const unsupportedMediaType: ResponseFunction = responseFunction.bind(null, 415);
+
+/**
+ * This is a shortcut for creating `application/json` responses with
+ * `status: 416`. Converts `data` into JSON when all the given
+ * promises have been fulfilled. The serialized JSON body is an object
+ * that has the same key names as the promises object argument. If any
+ * of the values in the object are not promises, they will simply be
+ * copied over to the fulfilled object.
+ *
+ * This indicates the ranges specified by the `Range` header field in
+ * the request cannot be fulfilled. It's possible that the range is
+ * outside the size of the target resource's data.
+ *
+ * ```ts
+ * import { rangeNotSatisfiable } from 'remix-response';
+ * export async function loader() {
+ *   return rangeNotSatisfiable({
+ *     error: Promise.resolve('Range not satisfiable.'),
+ *   });
+ * };
+ * ```
+ *
+ * @param data - A JavaScript object that will be serialized as JSON.
+ * @param init? - An optional RequestInit configuration object.
+ */
+export const rangeNotSatisfiable: ResponseFunction = responseFunction.bind(null, 416);
+
+/**
+ * This is a shortcut for creating `application/json` responses with
+ * `status: 417`. Converts `data` into JSON when all the given
+ * promises have been fulfilled. The serialized JSON body is an object
+ * that has the same key names as the promises object argument. If any
+ * of the values in the object are not promises, they will simply be
+ * copied over to the fulfilled object.
+ *
+ * This should be used to indicated the expectation indicated by the
+ * `Expect` request header field cannot be met by the server.
+ *
+ *
+ * ```ts
+ * import { expectationFailed } from 'remix-response';
+ * export async function action() {
+ *   return expectationFailed({
+ *     error: Promise.resolve('Content-Length is too large.'),
+ *   });
+ * };
+ * ```
+ *
+ * @param data - A JavaScript object that will be serialized as JSON.
+ * @param init? - An optional RequestInit configuration object.
+ */
+export const expectationFailed: ResponseFunction = responseFunction.bind(null, 417);
+
+/**
+ * This is a shortcut for creating `application/json` responses with
+ * `status: 418`. Converts `data` into JSON when all the given
+ * promises have been fulfilled. The serialized JSON body is an object
+ * that has the same key names as the promises object argument. If any
+ * of the values in the object are not promises, they will simply be
+ * copied over to the fulfilled object.
+ *
+ * The server refuses the attempt to brew coffee with a teapot.
+ *
+ *
+ * ```ts
+ * import { teapot } from 'remix-response';
+ * export async function action() {
+ *   return teapot({
+ *     error: Promise.resolve('🚫☕'),
+ *   });
+ * };
+ * ```
+ *
+ * @param data - A JavaScript object that will be serialized as JSON.
+ * @param init? - An optional RequestInit configuration object.
+ */
+export const teapot: ResponseFunction = responseFunction.bind(null, 418);
+
+/**
+ * This is a shortcut for creating `application/json` responses with
+ * `status: 421`. Converts `data` into JSON when all the given
+ * promises have been fulfilled. The serialized JSON body is an object
+ * that has the same key names as the promises object argument. If any
+ * of the values in the object are not promises, they will simply be
+ * copied over to the fulfilled object.
+ *
+ * This indicates the request was directed at a server that is not
+ * able to produce a response.
+ *
+ * ```ts
+ * import { misdirectedRequest } from 'remix-response';
+ * export async function loader() {
+ *   return misdirectedRequest({
+ *     error: Promise.resolve('Wrong host.'),
+ *   });
+ * };
+ * ```
+ *
+ * @param data - A JavaScript object that will be serialized as JSON.
+ * @param init? - An optional RequestInit configuration object.
+ */
+export const misdirectedRequest: ResponseFunction = responseFunction.bind(null, 421);
 
 /**
  * This is a shortcut for creating `application/json` responses with
- * `status: 201`. Converts `data` into JSON when all the given
+ * `status: 422`. Converts `data` into JSON when all the given
  * promises have been fulfilled. The serialized JSON body is an object
  * that has the same key names as the promises object argument. If any
  * of the values in the object are not promises, they will simply be
  * copied over to the fulfilled object.
  *
+ * This should be used when the request was well-formed but could not
+ * be processed because of semantic errors, like a form submission that
+ * failed validation. See `validationError` for creating this response
+ * from a schema library's error.
+ *
  * ```ts
- * import { created } from 'remix-response';
- * export const action = async () => {
- *   return created({
- *     status: 'new',
- *     id: Promise.resolve(1),
+ * import { unprocessableEntity } from 'remix-response';
+ * export async function action() {
+ *   return unprocessableEntity({
+ *     errors: Promise.resolve({ email: 'already taken' }),
  *   });
  * };
  * ```
@@ -153,40 +3778,112 @@ export const ok: ResponseFunction = responseFunction.bind(null, 200);
  * @param data - A JavaScript object that will be serialized as JSON.
  * @param init? - An optional RequestInit configuration object.
  */
-export const created = responseFunction.bind(null, 201);
+export const unprocessableEntity: ResponseFunction = responseFunction.bind(null, 422);
 
 /**
- * This is a shortcut for creating a responses with `status: 204`.
+ * Reads the issues from a Zod `ZodError`, a Valibot `ValiError` or a
+ * Standard Schema failure result. All of these have an `issues` list.
+ */
+export const zodAdapter: ValidationAdapter<{ issues: ReadonlyArray<ValidationIssue> }> = error => error.issues;
+
+/**
+ * Accepts a plain list of `{ path, message }` issues.
+ */
+export const issueListAdapter: ValidationAdapter<ReadonlyArray<ValidationIssue>> = issues => issues;
+
+const defaultValidationAdapter: ValidationAdapter = error => {
+  return isValidationIssueList(error) ? issueListAdapter(error) : zodAdapter(error);
+};
+
+/**
+ * Converts the error object from a schema library into errors keyed by
+ * the dot separated path of each invalid field. Issues without a path
+ * are added to `formErrors`. The result has the same shape as Zod's
+ * `error.flatten()`, but also supports nested paths.
  *
  * ```ts
- * import { created } from 'remix-response';
- * export const action = async () => {
- *   return noContent();
+ * import { fieldErrors } from 'remix-response';
+ * const result = schema.safeParse(values);
+ * if (!result.success) {
+ *   fieldErrors(result.error); // { formErrors: [], fieldErrors: { email: ['Invalid email'] } }
+ * }
+ * ```
+ *
+ * @param error - A `ZodError`, `ValiError`, or a list of issues.
+ * @param adapter? - Converts the error into a list of issues.
+ */
+export const fieldErrors = <E>(
+  error: E,
+  adapter: ValidationAdapter<E> = defaultValidationAdapter
+): ValidationErrors<ValidationFields<E>> => {
+  const errors: ValidationErrors = { formErrors: [], fieldErrors: {} };
+  for (const issue of adapter(error)) {
+    const path = issuePath(issue.path);
+    if (path) {
+      (errors.fieldErrors[path] ||= []).push(issue.message);
+    } else {
+      errors.formErrors.push(issue.message);
+    }
+  }
+  return errors;
+};
+
+// Creates `validationError` for the `unprocessableEntity` helper of
+// `createResponseHelpers`, so the response type keeps its defaults.
+const validationErrorFor =
+  <Defaults>(unprocessable: ResponseFunction<Defaults>) =>
+  <E, D extends Record<string, any> = {}, I extends Init = {}>(
+    error: E,
+    data?: D,
+    init?: I & { adapter?: ValidationAdapter<E> }
+  ) => {
+    const { adapter, ...responseInit } = init || ({} as I & { adapter?: ValidationAdapter<E> });
+    return unprocessable<D & ValidationErrors<ValidationFields<E>>, I>(
+      { ...(data as D), ...fieldErrors(error, adapter) },
+      responseInit as I
+    );
+  };
+
+/**
+ * This is a shortcut for creating a `422` response from a schema
+ * library's error. The `formErrors` and `fieldErrors` from
+ * `fieldErrors` are merged with `data`, so `useActionData` knows the
+ * name of every field that can have an error.
+ *
+ * ```ts
+ * import type { ActionArgs } from "@remix-run/node";
+ * import { validationError, seeOther } from 'remix-response';
+ * export async function action({ request }: ActionArgs) {
+ *   const values = Object.fromEntries(await request.formData());
+ *   const result = schema.safeParse(values);
+ *   if (!result.success) {
+ *     return validationError(result.error, { values });
+ *   }
+ *   return seeOther('/done');
  * };
  * ```
  *
+ * @param error - A `ZodError`, `ValiError`, or a list of issues.
+ * @param data? - A JavaScript object that will be serialized as JSON.
  * @param init? - An optional RequestInit configuration object.
  */
-export const noContent = (init?: Init) =>
-  new Response(null, {
-    ...init,
-    status: 204,
-  });
+export const validationError: ValidationErrorFunction = validationErrorFor(unprocessableEntity);
 
 /**
  * This is a shortcut for creating `application/json` responses with
- * `status: 205`. Converts `data` into JSON when all the given
+ * `status: 423`. Converts `data` into JSON when all the given
  * promises have been fulfilled. The serialized JSON body is an object
  * that has the same key names as the promises object argument. If any
  * of the values in the object are not promises, they will simply be
  * copied over to the fulfilled object.
  *
+ * This indicates the resource that is being accessed is locked.
+ *
  * ```ts
- * import { resetContent } from 'remix-response';
- * export const loader = async () => {
- *   return resetContent({
- *     form: {},
- *     id: Promise.resolve(1),
+ * import { locked } from 'remix-response';
+ * export async function action() {
+ *   return locked({
+ *     lockedBy: Promise.resolve('another user'),
  *   });
  * };
  * ```
@@ -194,22 +3891,24 @@ export const noContent = (init?: Init) =>
  * @param data - A JavaScript object that will be serialized as JSON.
  * @param init? - An optional RequestInit configuration object.
  */
-export const resetContent = responseFunction.bind(null, 205);
+export const locked: ResponseFunction = responseFunction.bind(null, 423);
 
 /**
  * This is a shortcut for creating `application/json` responses with
- * `status: 206`. Converts `data` into JSON when all the given
+ * `status: 424`. Converts `data` into JSON when all the given
  * promises have been fulfilled. The serialized JSON body is an object
  * that has the same key names as the promises object argument. If any
  * of the values in the object are not promises, they will simply be
  * copied over to the fulfilled object.
  *
+ * This indicates the request failed due to the failure of a previous
+ * request.
+ *
  * ```ts
- * import { partialContent } from 'remix-response';
- * export const loader = async () => {
- *   return partialContent({
- *     title: 'RFC 2616 - Hypertext Transfer Protocol -- HTTP/1.1',
- *     id: Promise.resolve(2616),
+ * import { failedDependency } from 'remix-response';
+ * export async function action() {
+ *   return failedDependency({
+ *     error: Promise.resolve('The parent item could not be created.'),
  *   });
  * };
  * ```
@@ -217,159 +3916,260 @@ export const resetContent = responseFunction.bind(null, 205);
  * @param data - A JavaScript object that will be serialized as JSON.
  * @param init? - An optional RequestInit configuration object.
  */
-export const partialContent = responseFunction.bind(null, 206);
+export const failedDependency: ResponseFunction = responseFunction.bind(null, 424);
 
-// 3XX
 /**
- * This is a shortcut for creating a redirect response with `status:
- * 301`. The provided string will be set as the location header in the
- * response.
+ * This is a shortcut for creating `application/json` responses with
+ * `status: 425`. Converts `data` into JSON when all the given
+ * promises have been fulfilled. The serialized JSON body is an object
+ * that has the same key names as the promises object argument. If any
+ * of the values in the object are not promises, they will simply be
+ * copied over to the fulfilled object.
  *
- * This should be used when the URL of the requested resource has been
- * changed permanently. Browsers will cache this redirect.
+ * This indicates the server is unwilling to risk processing a request
+ * that might be replayed.
  *
  * ```ts
- * import { movedPermanently } from 'remix-response';
- * export const loader = async () => {
- *   return movedPermanently('https://www.example.com/');
+ * import { tooEarly } from 'remix-response';
+ * export async function action() {
+ *   return tooEarly({
+ *     error: Promise.resolve('Retry after the handshake completes.'),
+ *   });
  * };
  * ```
  *
- * @param url - A url to redirect the request to
+ * @param data - A JavaScript object that will be serialized as JSON.
+ * @param init? - An optional RequestInit configuration object.
  */
-export const movedPermanently = redirectFunction.bind(null, 301);
+export const tooEarly: ResponseFunction = responseFunction.bind(null, 425);
 
 /**
- * This is a shortcut for creating a redirect response with `status:
- * 302`. The provided string will be set as the location header in the
- * response.
- *
- * This should be used when the URI of requested resource has been
- * changed temporarily. Browsers will not cache this redirectly and it
- * is commonly used in action functions.
+ * This is a shortcut for creating `application/json` responses with
+ * `status: 426`. Converts `data` into JSON when all the given
+ * promises have been fulfilled. The serialized JSON body is an object
+ * that has the same key names as the promises object argument. If any
+ * of the values in the object are not promises, they will simply be
+ * copied over to the fulfilled object.
  *
+ * This indicates the server refuses to perform the request using the
+ * current protocol but might be willing to do so after the client
+ * upgrades to a different protocol. The server should send an
+ * `Upgrade` header with the required protocols.
  *
  * ```ts
- * import { found } from 'remix-response';
- * export const action = async () => {
- *   return found('https://www.example.com/');
+ * import { upgradeRequired } from 'remix-response';
+ * export async function loader() {
+ *   return upgradeRequired({
+ *     error: Promise.resolve('Use HTTP/2.'),
+ *   });
  * };
  * ```
  *
- * @param url - A url to redirect the request to
+ * @param data - A JavaScript object that will be serialized as JSON.
+ * @param init? - An optional RequestInit configuration object.
  */
-export const found = redirectFunction.bind(null, 302);
+export const upgradeRequired: ResponseFunction = responseFunction.bind(null, 426);
 
 /**
- * This is a shortcut for creating a redirect response with `status:
- * 303`. The provided string will be set as the location header in the
- * response.
+ * This is a shortcut for creating `application/json` responses with
+ * `status: 428`. Converts `data` into JSON when all the given
+ * promises have been fulfilled. The serialized JSON body is an object
+ * that has the same key names as the promises object argument. If any
+ * of the values in the object are not promises, they will simply be
+ * copied over to the fulfilled object.
  *
- * This indicates that the redirects don't link to the requested
- * resource itself, but to another page (such as a confirmation page,
- * a representation of a real-world object or an upload-progress
- * page). This response code is often sent back as a result of PUT or
- * POST. The method used to display this redirected page is always
- * GET.
+ * This is used to indicate the the request must be conditional. This
+ * response is intended to prevent the 'lost update' problem, where a
+ * client GETs a resource's state, modifies it and PUTs it back to the
+ * server, when meanwhile a third party has modified the state on the
+ * server, leading to a conflict.
  *
  * ```ts
- * import { seeOther } from 'remix-response';
- * export const action = async () => {
- *   return seeOther('https://www.example.com/');
+ * import { preconditionFailed } from 'remix-response';
+ * export async function action() {
+ *   return preconditionFailed({
+ *     error: Promise.resolve('Missing If-Match header.'),
+ *   });
  * };
  * ```
  *
- * @param url - A url to redirect the request to
+ * @param data - A JavaScript object that will be serialized as JSON.
+ * @param init? - An optional RequestInit configuration object.
  */
-export const seeOther = redirectFunction.bind(null, 303);
+export const preconditionRequired: ResponseFunction = responseFunction.bind(null, 428);
 
 /**
- * This is a shortcut for creating a redirect response with `status:
- * 304`. The provided string will be set as the location header in the
- * response.
+ * This is a shortcut for creating `application/json` responses with
+ * `status: 429`. Converts `data` into JSON when all the given
+ * promises have been fulfilled. The serialized JSON body is an object
+ * that has the same key names as the promises object argument. If any
+ * of the values in the object are not promises, they will simply be
+ * copied over to the fulfilled object.
  *
- * This is used for caching purposes. It tells the client that the
- * response has not been modified, so the client can continue to use
- * the same cached version of the response.
+ * This is used to indacate the user has sent too many requests in a
+ * given amount of time ("rate limiting").
+ *
+ * Pass `retryAfter` and `rateLimit` to tell clients when to retry,
+ * or use the result of a `createRateLimiter` limiter.
  *
  * ```ts
- * import { notModified } from 'remix-response';
- * export const loader = async ({ request }: LoaderArgs) => {
- *   if (request.headers.get('If-Modified-Since') === 'Wed, 21 Oct 2015 07:28:00 GMT') {
- *     return notModified(request.url);
- *   }
+ * import { tooManyRequests } from 'remix-response';
+ * export async function action() {
+ *   return tooManyRequests({
+ *     retryIn: Promise.resolve(5 * 60 * 1000),
+ *   }, {
+ *     retryAfter: 5 * 60,
+ *   });
  * };
  * ```
  *
- * @param url - A url to redirect the request to
+ * @param data - A JavaScript object that will be serialized as JSON.
+ * @param init? - An optional RequestInit configuration object.
  */
-export const notModified = redirectFunction.bind(null, 304);
+export const tooManyRequests: ResponseFunction = responseFunction.bind(null, 429);
+
+export type RateLimiterOptions = {
+  /** The number of requests allowed in each window. */
+  limit: number;
+  /** The length of the window in seconds. */
+  window: number;
+  /**
+   * The most keys to remember. The least recently used key is
+   * forgotten first, which gives it a full bucket again. Defaults to
+   * `10000`.
+   */
+  maxKeys?: number;
+  /** Returns the current time in milliseconds. Defaults to `Date.now`. */
+  now?: () => number;
+};
+
+export type RateLimitResult = {
+  /** Whether the request is within the limit. */
+  allowed: boolean;
+  rateLimit: RateLimit;
+  /** The number of seconds to wait before retrying, when it isn't allowed. */
+  retryAfter?: number;
+};
 
 /**
- * This is a shortcut for creating a redirect response with `status:
- * 307`. The provided string will be set as the location header in the
- * response.
+ * Creates an in-memory token bucket rate limiter. Each key starts with
+ * `limit` tokens, which refill evenly over the `window`. `consume`
+ * takes tokens for a request and returns the `rateLimit` and
+ * `retryAfter` options for the response. The `limit` and `window`
+ * must be positive numbers.
  *
- * This should be used to direct the client to get the requested
- * resource at another URI with the same method that was used in the
- * prior request. This has the same semantics as the `302 Found` HTTP
- * response code, with the exception that the user agent must not
- * change the HTTP method used: if a `POST` was used in the first
- * request, a `POST` must be used in the second request.
+ * The buckets are only kept in the memory of this process, so use a
+ * shared store when running more than one server. Buckets that have
+ * refilled are swept once per window, and at most `maxKeys` are kept.
  *
+ * Key the limiter on something the client can't choose, like the id
+ * of the signed in user. Headers like `X-Forwarded-For` can be set to
+ * anything unless a trusted proxy overwrites them.
  *
  * ```ts
- * import { temporaryRedirect } from 'remix-response';
- * export const action = async () => {
- *   return temporaryRedirect('https://www.example.com/');
- * };
- * ```
- *
- * @param url - A url to redirect the request to
- */
-export const temporaryRedirect = redirectFunction.bind(null, 307);
-
-/**
- * This is a shortcut for creating a redirect response with `status:
- * 308`. The provided string will be set as the location header in the
- * response.
- *
- * This means that the resource is now permanently located at another
- * URI. This has the same semantics as the `301 Moved Permanently` HTTP
- * response code, with the exception that the user agent must not
- * change the HTTP method used: if a `POST` was used in the first
- * request, a `POST` must be used in the second request.
+ * import type { ActionArgs } from "@remix-run/node";
+ * import { createRateLimiter, ok, tooManyRequests } from 'remix-response';
+ * const limiter = createRateLimiter({ limit: 10, window: 60 });
  *
- * ```ts
- * import { permanentRedirect } from 'remix-response';
- * export const action = async () => {
- *   return permanentRedirect('https://www.example.com/');
+ * export async function action({ request }: ActionArgs) {
+ *   const { userId } = await requireUser(request);
+ *   const { allowed, rateLimit, retryAfter } = limiter.consume(userId);
+ *   if (!allowed) {
+ *     throw tooManyRequests({ message: 'Slow down' }, { rateLimit, retryAfter });
+ *   }
+ *   return ok({ saved: save(await request.formData()) }, { rateLimit });
  * };
  * ```
  *
- * @param url - A url to redirect the request to
+ * @param options - The limit, window, size and clock of the limiter.
  */
-export const permanentRedirect = redirectFunction.bind(null, 308);
+export const createRateLimiter = ({ limit, window, maxKeys = 10000, now = Date.now }: RateLimiterOptions) => {
+  for (const [name, value] of Object.entries({ limit, window })) {
+    if (!Number.isFinite(value) || value <= 0) {
+      throw new RangeError(`${name} must be a positive number, got ${value}`);
+    }
+  }
+  // Map keeps insertion order, so moving a key to the end on each use
+  // leaves the least recently used key first.
+  const buckets = new Map<string, { tokens: number; updatedAt: number }>();
+  const refillPerSecond = limit / window;
+  let sweptAt: number | undefined;
+
+  const refill = (bucket: { tokens: number; updatedAt: number }, time: number) => {
+    return Math.min(limit, bucket.tokens + ((time - bucket.updatedAt) / 1000) * refillPerSecond);
+  };
+
+  // Every bucket is full again after a window, so the keys that weren't
+  // used since the last sweep can be forgotten.
+  const sweep = (time: number) => {
+    sweptAt ??= time;
+    if (time - sweptAt < window * 1000) {
+      return;
+    }
+    sweptAt = time;
+    for (const [key, bucket] of buckets) {
+      if (refill(bucket, time) >= limit) {
+        buckets.delete(key);
+      }
+    }
+  };
+
+  const consume = (key: string, cost = 1): RateLimitResult => {
+    const time = now();
+    sweep(time);
+    const bucket = buckets.get(key) || { tokens: limit, updatedAt: time };
+    buckets.delete(key);
+    bucket.tokens = refill(bucket, time);
+    bucket.updatedAt = time;
+    const allowed = bucket.tokens >= cost;
+    if (allowed) {
+      bucket.tokens -= cost;
+    }
+    // Full buckets don't need to be remembered.
+    if (bucket.tokens < limit) {
+      buckets.set(key, bucket);
+      if (buckets.size > maxKeys) {
+        buckets.delete(buckets.keys().next().value!);
+      }
+    }
+    const rateLimit = {
+      limit,
+      remaining: Math.floor(bucket.tokens),
+      reset: Math.ceil((limit - bucket.tokens) / refillPerSecond),
+      window,
+    };
+    if (allowed) {
+      return { allowed, rateLimit };
+    }
+    return { allowed, rateLimit, retryAfter: Math.ceil((cost - bucket.tokens) / refillPerSecond) };
+  };
+
+  return {
+    consume,
+    /** Forgets the tokens used by `key`. */
+    reset: (key: string) => {
+      buckets.delete(key);
+    },
+  };
+};
 
-// 4XX
 /**
  * This is a shortcut for creating `application/json` responses with
- * `status: 400`. Converts `data` into JSON when all the given
+ * `status: 431`. Converts `data` into JSON when all the given
  * promises have been fulfilled. The serialized JSON body is an object
  * that has the same key names as the promises object argument. If any
  * of the values in the object are not promises, they will simply be
  * copied over to the fulfilled object.
  *
- * This should be used when the action cannot or will not process the
- * request due to something that is perceived to be a client error.
+ * This indicates the server is unwilling to process the request
+ * because its header fields are too large. The request may be
+ * resubmitted after reducing the size of the request header fields.
  *
  * ```ts
- * import type { ActionArgs } from "@remix-run/node";
- * import { badRequest } from 'remix-response';
- * export async function action({ request }: ActionArgs) {
- *   return badRequest({
- *     form: request.formData(),
- *     errors: Promise.resolve({name: 'missing'}),
+ * import { requestHeaderFieldsTooLarge } from 'remix-response';
+ * export async function loader() {
+ *   return requestHeaderFieldsTooLarge({
+ *     error: Promise.resolve('Cookies are too large.'),
  *   });
  * };
  * ```
@@ -377,30 +4177,24 @@ export const permanentRedirect = redirectFunction.bind(null, 308);
  * @param data - A JavaScript object that will be serialized as JSON.
  * @param init? - An optional RequestInit configuration object.
  */
-export const badRequest = responseFunction.bind(null, 400);
+export const requestHeaderFieldsTooLarge: ResponseFunction = responseFunction.bind(null, 431);
 
 /**
  * This is a shortcut for creating `application/json` responses with
- * `status: 401`. Converts `data` into JSON when all the given
+ * `status: 451`. Converts `data` into JSON when all the given
  * promises have been fulfilled. The serialized JSON body is an object
  * that has the same key names as the promises object argument. If any
  * of the values in the object are not promises, they will simply be
  * copied over to the fulfilled object.
  *
- * This should be used when the action cannot or will not process the
- * request because the user is unauthenticated.
- *
- * Although the HTTP standard specifies "unauthorized", semantically
- * this response means "unauthenticated". That is, the client must
- * authenticate itself to get the requested response.
+ * This indicates the user requested a resource that cannot legally be
+ * provided, such as a web page censored by a government.
  *
  * ```ts
- * import type { ActionArgs } from "@remix-run/node";
- * import { unauthorized } from 'remix-response';
- * export async function action({ request }: ActionArgs) {
- *   return unauthorized({
- *     form: request.formData(),
- *     errors: Promise.resolve({user: 'missing'}),
+ * import { unavailableForLegalReasons } from 'remix-response';
+ * export async function loader() {
+ *   return unavailableForLegalReasons({
+ *     error: Promise.resolve('Not available in your region.'),
  *   });
  * };
  * ```
@@ -408,29 +4202,24 @@ export const badRequest = responseFunction.bind(null, 400);
  * @param data - A JavaScript object that will be serialized as JSON.
  * @param init? - An optional RequestInit configuration object.
  */
-export const unauthorized = responseFunction.bind(null, 401);
+export const unavailableForLegalReasons: ResponseFunction = responseFunction.bind(null, 451);
 
+// 5XX
 /**
  * This is a shortcut for creating `application/json` responses with
- * `status: 403`. Converts `data` into JSON when all the given
+ * `status: 500`. Converts `data` into JSON when all the given
  * promises have been fulfilled. The serialized JSON body is an object
  * that has the same key names as the promises object argument. If any
  * of the values in the object are not promises, they will simply be
  * copied over to the fulfilled object.
  *
- * This should be used when the action cannot or will not process the
- * request because the user does not have access rights to the
- * content; that is, it is unauthorized, so the server is refusing to
- * give the requested resource. Unlike `401 Unauthorized`, the client's
- * identity is known to the server.
+ * The server has encountered a situation it does not know how to handle.
  *
  * ```ts
- * import type { ActionArgs } from "@remix-run/node";
- * import { forbidden } from 'remix-response';
- * export async function action({ request }: ActionArgs) {
- *   return forbidden({
- *     form: request.formData(),
- *     errors: Promise.resolve({user: 'missing'}),
+ * import { serverError } from 'remix-response';
+ * export async function loader() {
+ *   throw serverError({
+ *     error: Promise.resolve('Unable to load resouce.'),
  *   });
  * };
  * ```
@@ -438,26 +4227,28 @@ export const unauthorized = responseFunction.bind(null, 401);
  * @param data - A JavaScript object that will be serialized as JSON.
  * @param init? - An optional RequestInit configuration object.
  */
-export const forbidden = responseFunction.bind(null, 403);
+export const serverError: ResponseFunction = responseFunction.bind(null, 500);
 
 /**
  * This is a shortcut for creating `application/json` responses with
- * `status: 404`. Converts `data` into JSON when all the given
+ * `status: 501`. Converts `data` into JSON when all the given
  * promises have been fulfilled. The serialized JSON body is an object
  * that has the same key names as the promises object argument. If any
  * of the values in the object are not promises, they will simply be
  * copied over to the fulfilled object.
  *
- * This should be used when the loader find the requested resource. In
- * the browser, this means the URL is not recognized and the brower
- * will not suggest the URL as an autocomplete option int he future
+ * This is used to indicate the server does not support the functionality
+ * required to fulfill the request. This status can also send a
+ * `Retry-After` header, telling the requester when to check back to see
+ * if the functionality is supported by then.
  *
  * ```ts
- * import { notFound } from 'remix-response';
+ * import { notImplemented } from 'remix-response';
  * export async function loader() {
- *   return notFound({
- *     recommendations: []
- *     fromTheBlog: Promise.resolve([]),
+ *   throw notImplemented({
+ *     error: Promise.resolve('Unable to load resouce.'),
+ *   }, {
+ *     headers: { 'Retry-After': 300 }
  *   });
  * };
  * ```
@@ -465,25 +4256,24 @@ export const forbidden = responseFunction.bind(null, 403);
  * @param data - A JavaScript object that will be serialized as JSON.
  * @param init? - An optional RequestInit configuration object.
  */
-export const notFound = responseFunction.bind(null, 404);
+export const notImplemented: ResponseFunction = responseFunction.bind(null, 501);
 
 /**
  * This is a shortcut for creating `application/json` responses with
- * `status: 405`. Converts `data` into JSON when all the given
+ * `status: 502`. Converts `data` into JSON when all the given
  * promises have been fulfilled. The serialized JSON body is an object
  * that has the same key names as the promises object argument. If any
  * of the values in the object are not promises, they will simply be
  * copied over to the fulfilled object.
  *
- * This should be used when the request method is known by the server
- * but is not supported by the target resource. For example, an API
- * may not allow calling DELETE to remove a resource.
+ * This indicates the server, while working as a gateway to get a
+ * response needed to handle the request, got an invalid response.
  *
  * ```ts
- * import { methodNotAllowed } from 'remix-response';
- * export async function action() {
- *   return methodNotAllowed({
- *     allowedMethods: Promise.resolve(['GET', 'POST']),
+ * import { badGateway } from 'remix-response';
+ * export async function loader() {
+ *   throw badGateway({
+ *     error: Promise.resolve('The upstream service failed.'),
  *   });
  * };
  * ```
@@ -491,38 +4281,30 @@ export const notFound = responseFunction.bind(null, 404);
  * @param data - A JavaScript object that will be serialized as JSON.
  * @param init? - An optional RequestInit configuration object.
  */
-export const methodNotAllowed = responseFunction.bind(null, 405);
+export const badGateway: ResponseFunction = responseFunction.bind(null, 502);
 
 /**
  * This is a shortcut for creating `application/json` responses with
- * `status: 406`. Converts `data` into JSON when all the given
+ * `status: 503`. Converts `data` into JSON when all the given
  * promises have been fulfilled. The serialized JSON body is an object
  * that has the same key names as the promises object argument. If any
  * of the values in the object are not promises, they will simply be
  * copied over to the fulfilled object.
  *
- * This indicates that the server cannot produce a response matching
- * the list of acceptable values defined in the request's proactive
- * content negotiation headers, and that the server is unwilling to
- * supply a default representation.
- *
- * Proactive content negotiation headers include: `Accept`, `Accept-Encoding`, `Accept-Language`.
- *
- * In practice, this error is very rarely used. Instead of responding
- * using this error code, which would be cryptic for the end user and
- * difficult to fix, servers ignore the relevant header and serve an
- * actual page to the user. It is assumed that even if the user won't
- * be completely happy, they will prefer this to an error code.
- *
- * If a server returns such an error status, the body of the message
- * should contain the list of the available representations of the
- * resources, allowing the user to choose among them.
+ * The server is not ready to handle the request. Common causes are a
+ * server that is down for maintenance or that is overloaded. This
+ * response should be used for temporary conditions and the
+ * `Retry-After` HTTP header should, if possible, contain the
+ * estimated time before the recovery of the service. This is used to
+ * indicate the server does not support the functionality
  *
  * ```ts
- * import { notAcceptable } from 'remix-response';
- * export async function action() {
- *   return notAcceptable({
- *     allowedLanguage: Promise.resolve(['US_en', 'US_es']),
+ * import { serviceUnavailable } from 'remix-response';
+ * export async function loader() {
+ *   throw serviceUnavailable({
+ *     error: Promise.resolve('Unable to load resouce.'),
+ *   }, {
+ *     retryAfter: 300,
  *   });
  * };
  * ```
@@ -530,24 +4312,24 @@ export const methodNotAllowed = responseFunction.bind(null, 405);
  * @param data - A JavaScript object that will be serialized as JSON.
  * @param init? - An optional RequestInit configuration object.
  */
-export const notAcceptable = responseFunction.bind(null, 406);
+export const serviceUnavailable: ResponseFunction = responseFunction.bind(null, 503);
 
 /**
  * This is a shortcut for creating `application/json` responses with
- * `status: 409`. Converts `data` into JSON when all the given
+ * `status: 504`. Converts `data` into JSON when all the given
  * promises have been fulfilled. The serialized JSON body is an object
  * that has the same key names as the promises object argument. If any
  * of the values in the object are not promises, they will simply be
  * copied over to the fulfilled object.
  *
- * This should be used to indicate aa request conflicts with the
- * current state of the server.
+ * This indicates the server, while acting as a gateway, cannot get a
+ * response in time.
  *
  * ```ts
- * import { conflict } from 'remix-response';
- * export async function action() {
- *   return conflict({
- *     error: Promise.resolve({ id: 'duplicate id' }),
+ * import { gatewayTimeout } from 'remix-response';
+ * export async function loader() {
+ *   throw gatewayTimeout({
+ *     error: Promise.resolve('The upstream service timed out.'),
  *   });
  * };
  * ```
@@ -555,25 +4337,24 @@ export const notAcceptable = responseFunction.bind(null, 406);
  * @param data - A JavaScript object that will be serialized as JSON.
  * @param init? - An optional RequestInit configuration object.
  */
-export const conflict = responseFunction.bind(null, 409);
+export const gatewayTimeout: ResponseFunction = responseFunction.bind(null, 504);
 
 /**
  * This is a shortcut for creating `application/json` responses with
- * `status: 410`. Converts `data` into JSON when all the given
+ * `status: 505`. Converts `data` into JSON when all the given
  * promises have been fulfilled. The serialized JSON body is an object
  * that has the same key names as the promises object argument. If any
  * of the values in the object are not promises, they will simply be
  * copied over to the fulfilled object.
  *
- * This should be used when a resource has been permanently deleted
- * from server, with no forwarding address. Clients are expected to
- * remove their caches and links to the resource.
+ * This indicates the HTTP version used in the request is not
+ * supported by the server.
  *
  * ```ts
- * import { gone } from 'remix-response';
- * export async function action() {
- *   return gone({
- *     error: Promise.resolve('resource deleted'),
+ * import { httpVersionNotSupported } from 'remix-response';
+ * export async function loader() {
+ *   throw httpVersionNotSupported({
+ *     supportedVersions: Promise.resolve(['1.1', '2']),
  *   });
  * };
  * ```
@@ -581,25 +4362,26 @@ export const conflict = responseFunction.bind(null, 409);
  * @param data - A JavaScript object that will be serialized as JSON.
  * @param init? - An optional RequestInit configuration object.
  */
-export const gone = responseFunction.bind(null, 410);
+export const httpVersionNotSupported: ResponseFunction = responseFunction.bind(null, 505);
 
 /**
  * This is a shortcut for creating `application/json` responses with
- * `status: 412`. Converts `data` into JSON when all the given
+ * `status: 506`. Converts `data` into JSON when all the given
  * promises have been fulfilled. The serialized JSON body is an object
  * that has the same key names as the promises object argument. If any
  * of the values in the object are not promises, they will simply be
  * copied over to the fulfilled object.
  *
- * This should be used to indicated the client sent preconditions in
- * its headers (usually `If-Unmodified-Since` or `If-None-Match`) which
- * the server does not meet.
+ * This indicates the server has an internal configuration error: the
+ * chosen variant resource is configured to engage in transparent
+ * content negotiation itself, and is therefore not a proper end point
+ * in the negotiation process.
  *
  * ```ts
- * import { preconditionFailed } from 'remix-response';
- * export async function action() {
- *   return preconditionFailed({
- *     modifiedSince: Promise.resolve(Date.now()),
+ * import { variantAlsoNegotiates } from 'remix-response';
+ * export async function loader() {
+ *   throw variantAlsoNegotiates({
+ *     error: Promise.resolve('Negotiation loop.'),
  *   });
  * };
  * ```
@@ -607,25 +4389,25 @@ export const gone = responseFunction.bind(null, 410);
  * @param data - A JavaScript object that will be serialized as JSON.
  * @param init? - An optional RequestInit configuration object.
  */
-export const preconditionFailed = responseFunction.bind(null, 412);
+export const variantAlsoNegotiates: ResponseFunction = responseFunction.bind(null, 506);
 
 /**
  * This is a shortcut for creating `application/json` responses with
- * `status: 417`. Converts `data` into JSON when all the given
+ * `status: 507`. Converts `data` into JSON when all the given
  * promises have been fulfilled. The serialized JSON body is an object
  * that has the same key names as the promises object argument. If any
  * of the values in the object are not promises, they will simply be
  * copied over to the fulfilled object.
  *
- * This should be used to indicated the expectation indicated by the
- * `Expect` request header field cannot be met by the server.
- *
+ * This indicates the method could not be performed on the resource
+ * because the server is unable to store the representation needed to
+ * successfully complete the request.
  *
  * ```ts
- * import { expectationFailed } from 'remix-response';
+ * import { insufficientStorage } from 'remix-response';
  * export async function action() {
- *   return expectationFailed({
- *     error: Promise.resolve('Content-Length is too large.'),
+ *   throw insufficientStorage({
+ *     error: Promise.resolve('Disk quota exceeded.'),
  *   });
  * };
  * ```
@@ -633,24 +4415,24 @@ export const preconditionFailed = responseFunction.bind(null, 412);
  * @param data - A JavaScript object that will be serialized as JSON.
  * @param init? - An optional RequestInit configuration object.
  */
-export const expectationFailed = responseFunction.bind(null, 417);
+export const insufficientStorage: ResponseFunction = responseFunction.bind(null, 507);
 
 /**
  * This is a shortcut for creating `application/json` responses with
- * `status: 418`. Converts `data` into JSON when all the given
+ * `status: 508`. Converts `data` into JSON when all the given
  * promises have been fulfilled. The serialized JSON body is an object
  * that has the same key names as the promises object argument. If any
  * of the values in the object are not promises, they will simply be
  * copied over to the fulfilled object.
  *
- * The server refuses the attempt to brew coffee with a teapot.
- *
+ * This indicates the server detected an infinite loop while
+ * processing the request.
  *
  * ```ts
- * import { teapot } from 'remix-response';
+ * import { loopDetected } from 'remix-response';
  * export async function action() {
- *   return teapot({
- *     error: Promise.resolve('🚫☕'),
+ *   throw loopDetected({
+ *     error: Promise.resolve('Infinite loop detected.'),
  *   });
  * };
  * ```
@@ -658,27 +4440,24 @@ export const expectationFailed = responseFunction.bind(null, 417);
  * @param data - A JavaScript object that will be serialized as JSON.
  * @param init? - An optional RequestInit configuration object.
  */
-export const teapot = responseFunction.bind(null, 418);
+export const loopDetected: ResponseFunction = responseFunction.bind(null, 508);
 
 /**
  * This is a shortcut for creating `application/json` responses with
- * `status: 428`. Converts `data` into JSON when all the given
+ * `status: 510`. Converts `data` into JSON when all the given
  * promises have been fulfilled. The serialized JSON body is an object
  * that has the same key names as the promises object argument. If any
  * of the values in the object are not promises, they will simply be
  * copied over to the fulfilled object.
  *
- * This is used to indicate the the request must be conditional. This
- * response is intended to prevent the 'lost update' problem, where a
- * client GETs a resource's state, modifies it and PUTs it back to the
- * server, when meanwhile a third party has modified the state on the
- * server, leading to a conflict.
+ * This indicates further extensions to the request are required for
+ * the server to fulfill it.
  *
  * ```ts
- * import { preconditionFailed } from 'remix-response';
- * export async function action() {
- *   return preconditionFailed({
- *     error: Promise.resolve('Missing If-Match header.'),
+ * import { notExtended } from 'remix-response';
+ * export async function loader() {
+ *   throw notExtended({
+ *     error: Promise.resolve('Missing extension.'),
  *   });
  * };
  * ```
@@ -686,24 +4465,24 @@ export const teapot = responseFunction.bind(null, 418);
  * @param data - A JavaScript object that will be serialized as JSON.
  * @param init? - An optional RequestInit configuration object.
  */
-export const preconditionRequired = responseFunction.bind(null, 428);
+export const notExtended: ResponseFunction = responseFunction.bind(null, 510);
 
 /**
  * This is a shortcut for creating `application/json` responses with
- * `status: 429`. Converts `data` into JSON when all the given
+ * `status: 511`. Converts `data` into JSON when all the given
  * promises have been fulfilled. The serialized JSON body is an object
  * that has the same key names as the promises object argument. If any
  * of the values in the object are not promises, they will simply be
  * copied over to the fulfilled object.
  *
- * This is used to indacate the user has sent too many requests in a
- * given amount of time ("rate limiting").
+ * This indicates the client needs to authenticate to gain network
+ * access, like a captive portal.
  *
  * ```ts
- * import { tooManyRequests } from 'remix-response';
- * export async function action() {
- *   return tooManyRequests({
- *     retryIn: Promise.resolve(5 * 60 * 1000),
+ * import { networkAuthenticationRequired } from 'remix-response';
+ * export async function loader() {
+ *   throw networkAuthenticationRequired({
+ *     loginUrl: Promise.resolve('https://wifi.example.com/login'),
  *   });
  * };
  * ```
@@ -711,89 +4490,493 @@ export const preconditionRequired = responseFunction.bind(null, 428);
  * @param data - A JavaScript object that will be serialized as JSON.
  * @param init? - An optional RequestInit configuration object.
  */
-export const tooManyRequests = responseFunction.bind(null, 429);
+export const networkAuthenticationRequired: ResponseFunction = responseFunction.bind(null, 511);
+
+const statusKind = (code: number) => {
+  const kind = STATUSES[code as StatusCode]?.kind;
+  if (!kind) {
+    throw new RangeError(`Unsupported status code: ${code}`);
+  }
+  return kind;
+};
 
-// 5XX
 /**
- * This is a shortcut for creating `application/json` responses with
- * `status: 500`. Converts `data` into JSON when all the given
- * promises have been fulfilled. The serialized JSON body is an object
- * that has the same key names as the promises object argument. If any
- * of the values in the object are not promises, they will simply be
- * copied over to the fulfilled object.
- *
- * The server has encountered a situation it does not know how to handle.
+ * Returns the helper for any status code. The kind of helper depends
+ * on the status: `3XX` redirects take a url, `204` takes an optional
+ * RequestInit configuration object and every other status takes the
+ * same `data` and `init` arguments as `ok`.
  *
  * ```ts
- * import { serverError } from 'remix-response';
+ * import { status } from 'remix-response';
  * export async function loader() {
- *   throw serverError({
- *     error: Promise.resolve('Unable to load resouce.'),
+ *   return status(203)({
+ *     listings: Promise.resolve([]),
  *   });
  * };
  * ```
  *
- * @param data - A JavaScript object that will be serialized as JSON.
- * @param init? - An optional RequestInit configuration object.
+ * @param code - A status code registered with IANA.
  */
-export const serverError = responseFunction.bind(null, 500);
+export const status = <Code extends StatusCode>(code: Code): StatusFunction<Code> => {
+  const kind = statusKind(code);
+  const statusFunctions: Record<
+    keyof StatusFunctions<{}>,
+    (status: number, ...args: any[]) => Response | Promise<Response>
+  > = {
+    body: responseFunction,
+    redirect: redirectFunction,
+    empty: emptyFunction,
+  };
+  return statusFunctions[kind].bind(null, code) as StatusFunction<Code>;
+};
 
 /**
- * This is a shortcut for creating `application/json` responses with
- * `status: 501`. Converts `data` into JSON when all the given
- * promises have been fulfilled. The serialized JSON body is an object
- * that has the same key names as the promises object argument. If any
- * of the values in the object are not promises, they will simply be
- * copied over to the fulfilled object.
+ * Creates a response in the representation that best matches the
+ * request's `Accept` header. Each key of `renderers` is a media type
+ * and each value either renders the resolved data into a string or is
+ * a `Serializer`. When several media types are equally acceptable the
+ * first renderer wins, and when the request has no `Accept` header
+ * the first renderer is used.
  *
- * This is used to indicate the server does not support the functionality
- * required to fulfill the request. This status can also send a
- * `Retry-After` header, telling the requester when to check back to see
- * if the functionality is supported by then.
+ * If none of the media types are acceptable this responds with a
+ * `406` whose body lists the available media types.
  *
  * ```ts
- * import { notImplemented } from 'remix-response';
- * export async function loader() {
- *   throw notImplemented({
- *     error: Promise.resolve('Unable to load resouce.'),
- *   }, {
- *     headers: { 'Retry-After': 300 }
+ * import type { LoaderArgs } from "@remix-run/node";
+ * import { negotiate, jsonSerializer } from 'remix-response';
+ * export async function loader({ request }: LoaderArgs) {
+ *   return negotiate(request, { rows: db.report.findMany() }, {
+ *     'application/json': jsonSerializer,
+ *     'text/csv': ({ rows }) => rows.map(row => row.join(',')).join('\n'),
  *   });
  * };
  * ```
  *
- * @param data - A JavaScript object that will be serialized as JSON.
+ * @param request - The request with the `Accept` header.
+ * @param data - A JavaScript object that will be rendered.
+ * @param renderers - Renderers keyed by media type.
  * @param init? - An optional RequestInit configuration object.
  */
-export const notImplemented = responseFunction.bind(null, 501);
+export const negotiate = (
+  request: Request,
+  data: Record<string, any>,
+  renderers: Record<string, Renderer>,
+  init?: Init
+): Response => {
+  const mediaTypes = Object.keys(renderers);
+  const ranges = parseAccept(request.headers.get('Accept') || '*/*');
+  let best: string | undefined;
+  let bestQuality = 0;
+  for (const mediaType of mediaTypes) {
+    const quality = mediaTypeQuality(ranges, mediaType);
+    if (quality > bestQuality) {
+      best = mediaType;
+      bestQuality = quality;
+    }
+  }
+
+  const headers = mergeHeaders(init?.headers);
+  appendHeader(headers, 'Vary', ['Accept']);
+  if (!best) {
+    // Options like `schema` and `etag` describe the negotiated data,
+    // so only the headers and cookies apply to the 406.
+    return notAcceptable({ accepted: mediaTypes }, { headers, cookies: init?.cookies });
+  }
+
+  const renderer = renderers[best];
+  const contentType = `${best}; charset=utf-8`;
+  if (typeof renderer === 'function') {
+    return responseFunction(200, data, { ...init, headers }, { contentType, render: renderer });
+  }
+  return responseFunction(200, data, {
+    ...init,
+    headers,
+    serializer: { ...renderer, contentType: renderer.contentType || contentType },
+  });
+};
+
+const pageUrl = (baseUrl: Pagination['baseUrl'], params: Record<string, string | number | undefined>) => {
+  const url = new URL(baseUrl instanceof Request ? baseUrl.url : baseUrl.toString());
+  for (const [name, value] of Object.entries(params)) {
+    if (value === undefined) {
+      url.searchParams.delete(name);
+    } else {
+      url.searchParams.set(name, String(value));
+    }
+  }
+  return url.href;
+};
+
+// Returns the page info and the urls for the `Link` header.
+const paginate = (pagination: Pagination): [PageInfo, Record<string, string>] => {
+  const { perPage, total, baseUrl, params = {} } = pagination;
+  const { page: pageParam = 'page', perPage: perPageParam = 'perPage', cursor: cursorParam = 'cursor' } = params;
+  const links: Record<string, string> = {};
+  if (!Number.isInteger(perPage) || perPage < 1) {
+    throw new RangeError(`perPage must be a positive integer, got ${perPage}`);
+  }
+
+  if ('page' in pagination) {
+    const { page } = pagination;
+    if (!Number.isInteger(page) || page < 1) {
+      throw new RangeError(`page must be a positive integer, got ${page}`);
+    }
+    const totalPages = total === undefined ? undefined : Math.max(Math.ceil(total / perPage), 1);
+    const hasNextPage = totalPages === undefined ? !!pagination.hasNextPage : page < totalPages;
+    const link = (page: number) => pageUrl(baseUrl, { [pageParam]: page, [perPageParam]: perPage });
+    links.first = link(1);
+    if (page > 1) {
+      links.prev = link(totalPages === undefined ? page - 1 : Math.min(page - 1, totalPages));
+    }
+    if (hasNextPage) {
+      links.next = link(page + 1);
+    }
+    if (totalPages !== undefined) {
+      links.last = link(totalPages);
+    }
+    return [{ page, perPage, total, totalPages, hasNextPage, hasPreviousPage: page > 1 }, links];
+  }
+
+  const { cursor, nextCursor, prevCursor } = pagination;
+  const link = (cursor?: string) => pageUrl(baseUrl, { [cursorParam]: cursor, [perPageParam]: perPage });
+  links.first = link();
+  if (prevCursor) {
+    links.prev = link(prevCursor);
+  }
+  if (nextCursor) {
+    links.next = link(nextCursor);
+  }
+  const pageInfo = { perPage, total, cursor, nextCursor, prevCursor, hasNextPage: !!nextCursor };
+  return [{ ...pageInfo, hasPreviousPage: !!prevCursor }, links];
+};
+
+// Returns the `Content-Range` of a numbered page, or `undefined` when
+// the page is the whole collection or its position isn't known.
+const itemRange = (pagination: Pagination) => {
+  const { perPage, total } = pagination;
+  if (!('page' in pagination) || total === undefined) {
+    return undefined;
+  }
+  const start = (pagination.page - 1) * perPage;
+  const end = Math.min(start + perPage, total) - 1;
+  if (end < start || (start === 0 && end === total - 1)) {
+    return undefined;
+  }
+  return `items ${start}-${end}/${total}`;
+};
 
 /**
- * This is a shortcut for creating `application/json` responses with
- * `status: 503`. Converts `data` into JSON when all the given
- * promises have been fulfilled. The serialized JSON body is an object
- * that has the same key names as the promises object argument. If any
- * of the values in the object are not promises, they will simply be
- * copied over to the fulfilled object.
+ * Creates a response with one page of a collection. The body is an
+ * object with the `items` and the `pageInfo`. `Link` headers to the
+ * first, previous, next and last pages are set as described in RFC
+ * 8288, and `X-Total-Count` is set when the `total` is known.
  *
- * The server is not ready to handle the request. Common causes are a
- * server that is down for maintenance or that is overloaded. This
- * response should be used for temporary conditions and the
- * `Retry-After` HTTP header should, if possible, contain the
- * estimated time before the recovery of the service. This is used to
- * indicate the server does not support the functionality
+ * Pages are either numbered with `page`, or use the `cursor`,
+ * `nextCursor` and `prevCursor` from the data source. The last page
+ * is only linked when the `total` is known.
  *
  * ```ts
- * import { serviceUnavailable } from 'remix-response';
- * export async function loader() {
- *   throw serviceUnavailable({
- *     error: Promise.resolve('Unable to load resouce.'),
- *   }, {
- *     headers: { 'Retry-After': 300 }
+ * import type { LoaderArgs } from "@remix-run/node";
+ * import { paginated } from 'remix-response';
+ * export async function loader({ request }: LoaderArgs) {
+ *   const page = Number(new URL(request.url).searchParams.get('page') || 1);
+ *   const perPage = 20;
+ *   return paginated(db.posts.findMany({ skip: (page - 1) * perPage, take: perPage }), {
+ *     page,
+ *     perPage,
+ *     total: await db.posts.count(),
+ *     baseUrl: request,
  *   });
  * };
  * ```
  *
- * @param data - A JavaScript object that will be serialized as JSON.
+ * @param items - The items of the page, or a promise for them.
+ * @param pagination - The position of the page in the collection.
  * @param init? - An optional RequestInit configuration object.
  */
-export const serviceUnavailable = responseFunction.bind(null, 503);
+export const paginated = <T, I extends Init = {}>(
+  items: T[] | PromiseLike<T[]>,
+  pagination: Pagination,
+  init?: I
+): TypedResponse<ResponseBody<{ items: T[] | PromiseLike<T[]>; pageInfo: PageInfo }, I>> => {
+  const [pageInfo, links] = paginate(pagination);
+  const headers = mergeHeaders(init?.headers);
+  headers.append(
+    'Link',
+    Object.entries(links)
+      .map(([rel, url]) => `<${url}>; rel="${rel}"`)
+      .join(', ')
+  );
+  if (pagination.total !== undefined) {
+    headers.set('X-Total-Count', String(pagination.total));
+  }
+  const range = pagination.partialContent ? itemRange(pagination) : undefined;
+  if (range) {
+    headers.set('Content-Range', range);
+  }
+  return responseFunction(range ? 206 : 200, { items, pageInfo }, { ...init, headers });
+};
+
+const ERROR_CONSTRUCTORS: Record<string, ErrorConstructor> = {
+  Error,
+  EvalError,
+  RangeError,
+  ReferenceError,
+  SyntaxError,
+  TypeError,
+  URIError,
+};
+
+// JSON drops an `undefined` value or reason, so only the status is
+// required, but no other keys are allowed.
+const isSettledResult = (value: any): value is SettledResult<unknown> => {
+  if (!isPlainObject(value)) {
+    return false;
+  }
+  const field = value.status === 'fulfilled' ? 'value' : value.status === 'rejected' ? 'reason' : undefined;
+  return !!field && Object.keys(value).every(key => key === 'status' || key === field);
+};
+
+/**
+ * Returns true if the value is an `Error` serialized in a response body.
+ *
+ * @param value - Any value from a response body.
+ */
+export const isSerializedError = (value: unknown): value is SerializedError => {
+  return value != null && typeof value === 'object' && (value as SerializedError).isError === true;
+};
+
+/**
+ * Returns true if the value is the body of a thrown response or of a
+ * response with a rejected promise. The body must have at least one
+ * key and every key must be a `Promise.allSettled` result.
+ *
+ * @param value - A parsed response body.
+ */
+export const isSettledData = <T = Record<string, unknown>>(value: unknown): value is SettledData<T> => {
+  if (!isPlainObject(value)) {
+    return false;
+  }
+  const results = Object.values(value);
+  return results.length > 0 && results.every(isSettledResult);
+};
+
+/**
+ * Returns true if the error from `useRouteError` is a response with
+ * `SettledData`. This narrows `error.data` so the ErrorBoundary can
+ * show which keys failed.
+ *
+ * ```tsx
+ * import { useRouteError } from '@remix-run/react';
+ * import { isSettledError } from 'remix-response';
+ * export function ErrorBoundary() {
+ *   const error = useRouteError();
+ *   if (isSettledError<typeof loader>(error)) {
+ *     const failed = Object.keys(error.data).filter(key => error.data[key].status === 'rejected');
+ *     return <p>Unable to load {failed.join(', ')}</p>;
+ *   }
+ *   return <p>Something went wrong</p>;
+ * }
+ * ```
+ *
+ * @param error - The error from `useRouteError`.
+ */
+export const isSettledError = <T = Record<string, unknown>>(
+  error: unknown
+): error is { status: number; statusText?: string; data: SettledData<SettledLoaderData<T>> } => {
+  return (
+    error != null &&
+    typeof (error as { status?: unknown }).status === 'number' &&
+    isSettledData((error as { data?: unknown }).data)
+  );
+};
+
+type SettledLoaderData<T> = T extends (...args: any[]) => infer R
+  ? Awaited<R> extends TypedResponse<infer U>
+    ? U
+    : Awaited<R>
+  : T;
+
+/**
+ * Rebuilds an `Error` instance from an error serialized in a response
+ * body. Built-in error types like `TypeError` keep their class and any
+ * other serialized fields, like `stack` or `cause`, are copied over.
+ *
+ * @param error - The serialized error.
+ */
+export const rebuildError = (error: SerializedError): Error => {
+  const { message, name, isError: _isError, ...fields } = error;
+  const rebuilt = new (ERROR_CONSTRUCTORS[name] || Error)(message);
+  rebuilt.name = name;
+  for (const [key, value] of Object.entries(fields)) {
+    Object.defineProperty(rebuilt, key, {
+      value: isSerializedError(value) ? rebuildError(value) : value,
+      writable: true,
+      configurable: true,
+    });
+  }
+  return rebuilt;
+};
+
+/**
+ * Splits `SettledData` into the fulfilled values and the rejection
+ * reasons. Serialized errors are rebuilt into `Error` instances.
+ *
+ * ```tsx
+ * import { useRouteError } from '@remix-run/react';
+ * import { isSettledError, unwrapSettled } from 'remix-response';
+ * export function ErrorBoundary() {
+ *   const error = useRouteError();
+ *   if (isSettledError<typeof loader>(error)) {
+ *     const { values, errors } = unwrapSettled(error.data);
+ *     // ...
+ *   }
+ * }
+ * ```
+ *
+ * @param data - The body of a thrown or rejected response.
+ */
+export const unwrapSettled = <T = Record<string, unknown>>(data: SettledData<T>): UnwrappedSettledData<T> => {
+  const values: Record<string, unknown> = {};
+  const errors: Record<string, unknown> = {};
+  for (const [key, result] of Object.entries<SettledResult<unknown>>(data)) {
+    if (result.status === 'fulfilled') {
+      values[key] = result.value;
+    } else {
+      errors[key] = isSerializedError(result.reason) ? rebuildError(result.reason) : result.reason;
+    }
+  }
+  return { values, errors } as UnwrappedSettledData<T>;
+};
+
+/**
+ * Reads the body of a thrown response, or of a response with a
+ * rejected promise, and unwraps it with `unwrapSettled`. Throws a
+ * `TypeError` if the body is not `SettledData`.
+ *
+ * ```ts
+ * import { parseSettledResponse } from 'remix-response';
+ * const response = await fetch('/resource');
+ * if (!response.ok) {
+ *   const { values, errors } = await parseSettledResponse(response);
+ * }
+ * ```
+ *
+ * @param response - The response to read.
+ */
+export const parseSettledResponse = async <T = Record<string, unknown>>(
+  response: Response | TypedResponse<unknown>
+): Promise<UnwrappedSettledData<SettledLoaderData<T>>> => {
+  const data = await response.json();
+  if (!isSettledData<SettledLoaderData<T>>(data)) {
+    throw new TypeError('The response body is not settled data');
+  }
+  return unwrapSettled(data);
+};
+
+/**
+ * Creates the full set of response helpers with app-wide defaults.
+ * The defaults accept the same options as `init`, and options passed
+ * to a helper take precedence over them. `headers` and `keys` are
+ * merged with the defaults instead of replacing them.
+ *
+ * ```ts
+ * // app/responses.server.ts
+ * import { createResponseHelpers, typedSerializer } from 'remix-response';
+ *
+ * export const { ok, notFound, seeOther, status } = createResponseHelpers({
+ *   headers: { 'X-Frame-Options': 'DENY' },
+ *   serializer: typedSerializer,
+ *   errorPolicy: process.env.NODE_ENV === 'production' ? 'production' : 'development',
+ *   cache: 'private-short',
+ *   onError: (error, key) => logger.error({ error, key }),
+ *   onResponse: response => metrics.increment(`responses.${response.status}`),
+ * });
+ * ```
+ *
+ * @param config? - The defaults for every helper and the `onResponse` hook.
+ */
+export const createResponseHelpers = <Defaults extends ResponseHelpersConfig = {}>(
+  config?: Defaults
+): ResponseHelpers<Omit<Defaults, 'onResponse'>> => {
+  type HelperDefaults = Omit<Defaults, 'onResponse'>;
+  const { onResponse, ...defaults } = config || ({} as ResponseHelpersConfig);
+
+  const withDefaults = (init?: Init): Init => ({
+    ...defaults,
+    ...init,
+    headers: mergeHeaders(defaults.headers, init?.headers),
+    keys: { ...defaults.keys, ...init?.keys },
+    cookies: [...(defaults.cookies || []), ...(init?.cookies || [])],
+  });
+
+  // Thenable responses are observed again when they resolve or reject
+  // with the final response.
+  const observe = <R extends Response>(response: R): R => {
+    if (!onResponse) {
+      return response;
+    }
+    callHook(onResponse, response);
+    const thenable: Response & Partial<PromiseLike<Response>> = response;
+    const then = thenable.then?.bind(thenable);
+    if (then) {
+      thenable.then = (cb, eb) => {
+        const observed = then(
+          resolved => {
+            callHook(onResponse, resolved);
+            return resolved;
+          },
+          rejected => {
+            callHook(onResponse, rejected);
+            throw rejected;
+          }
+        );
+        return Promise.resolve(observed).then(cb, eb);
+      };
+    }
+    return response;
+  };
+
+  // The stream and file helpers only take some of the options, so only
+  // those defaults are applied. Event streams keep their `no-cache`.
+  const withSomeDefaults = <I extends { headers?: HeadersInit; cookies?: Cookie[] }>(
+    init: I | undefined,
+    options: (keyof Init)[]
+  ): I => {
+    const { headers, cookies } = withDefaults(init as Init);
+    const picked = Object.fromEntries(
+      options.filter(option => option in defaults).map(option => [option, defaults[option]])
+    );
+    return { ...picked, ...init, headers, cookies } as I;
+  };
+
+  const create = <Code extends StatusCode>(code: Code): StatusFunction<Code, HelperDefaults> => {
+    const kind = statusKind(code);
+    const statusFunctions: Record<keyof StatusFunctions<{}>, (...args: any[]) => Response | Promise<Response>> = {
+      body: (data: Data, init?: Init) => observe(responseFunction(code, data, withDefaults(init))),
+      empty: (init?: Init) => observe(emptyFunction(code, withDefaults(init))),
+      redirect: (url: string, init?: RedirectInit) => {
+        const { headers, cookies } = withDefaults(init);
+        const redirect = redirectFunction(code, url, { ...init, headers, cookies });
+        return redirect instanceof Response ? observe(redirect) : redirect.then(observe);
+      },
+    };
+    return statusFunctions[kind] as StatusFunction<Code, HelperDefaults>;
+  };
+
+  const helpers = Object.fromEntries(
+    Object.entries(STATUSES).map(([code, { name }]) => [name, create(Number(code) as StatusCode)])
+  ) as { [Name in StatusName]: StatusFunction<StatusCodeOf<Name>, HelperDefaults> };
+
+  return {
+    ...helpers,
+    status: create,
+    negotiate: (request, data, renderers, init) => observe(negotiate(request, data, renderers, withDefaults(init))),
+    validationError: validationErrorFor(helpers.unprocessableEntity),
+    paginated: (items, pagination, init) => observe(paginated(items, pagination, withDefaults(init) as typeof init)),
+    eventStream: (source, init) => observe(eventStream(source, withSomeDefaults(init, ['errorPolicy']))),
+    ndjson: (source, init) => observe(ndjson(source, withSomeDefaults(init, ['serializer', 'errorPolicy', 'cache']))),
+    file: (source, init) => file(source, withSomeDefaults(init, ['cache'])).then(observe),
+    download: (source, init) => download(source, withSomeDefaults(init, ['cache'])).then(observe),
+  };
+};
@@ -0,0 +1,147 @@
+import { promises as fs } from 'fs';
+import { createBrotliCompress, BrotliOptions } from 'zlib';
+import { file as sendFile, download as sendDownload } from './index';
+import type { Compressor, FileInit, FileSource, RandomAccessFile } from './index';
+
+const FILE_CHUNK_SIZE = 64 * 1024;
+
+// Reads the bytes from `start` up to `end` one chunk at a time, only
+// when the client is ready for more data.
+const readFileStream = (path: string, start: number, end: number) => {
+  let handle: fs.FileHandle | undefined;
+  let position = start;
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        handle ??= await fs.open(path, 'r');
+        const bytes = new Uint8Array(Math.min(FILE_CHUNK_SIZE, end - position));
+        const { bytesRead } = bytes.length ? await handle.read(bytes, 0, bytes.length, position) : { bytesRead: 0 };
+        position += bytesRead;
+        if (bytesRead) {
+          controller.enqueue(bytes.subarray(0, bytesRead));
+        } else {
+          await handle.close();
+          controller.close();
+        }
+      } catch (error) {
+        await handle?.close();
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await handle?.close();
+    },
+  });
+};
+
+/**
+ * Opens a file on disk as a `RandomAccessFile` for `file` and
+ * `download`. Only the size and modification time are read up front,
+ * and each range is read from disk as it is sent.
+ *
+ * ```ts
+ * import type { LoaderArgs } from "@remix-run/node";
+ * import { file } from 'remix-response';
+ * import { openFile } from 'remix-response/node';
+ * export const loader = async ({ request, params }: LoaderArgs) => {
+ *   return file(await openFile(`./videos/${params.id}.mp4`), { request });
+ * };
+ * ```
+ *
+ * @param path - The path of the file.
+ */
+export const openFile = async (path: string): Promise<RandomAccessFile> => {
+  const stats = await fs.stat(path);
+  return {
+    size: stats.size,
+    read: (start, end) => readFileStream(path, start, end),
+    name: path.split(/[\\/]/).pop(),
+    lastModified: stats.mtimeMs,
+  };
+};
+
+/**
+ * Like `file` from `remix-response`, but also accepts the path of a
+ * file on disk.
+ *
+ * ```ts
+ * import type { LoaderArgs } from "@remix-run/node";
+ * import { file } from 'remix-response/node';
+ * export const loader = async ({ request, params }: LoaderArgs) => {
+ *   return file(`./videos/${params.id}.mp4`, { request, cache: 'public-short' });
+ * };
+ * ```
+ *
+ * @param source - A file path, `Blob`, `Buffer`, `RandomAccessFile` or stream.
+ * @param init? - An optional RequestInit configuration object.
+ */
+export const file = async (source: string | FileSource, init?: FileInit) => {
+  return sendFile(typeof source === 'string' ? await openFile(source) : source, init);
+};
+
+/**
+ * Like `download` from `remix-response`, but also accepts the path of
+ * a file on disk.
+ *
+ * ```ts
+ * import type { LoaderArgs } from "@remix-run/node";
+ * import { download } from 'remix-response/node';
+ * export const loader = async ({ request }: LoaderArgs) => {
+ *   return download('./exports/orders.csv', { request, filename: 'bestellübersicht.csv' });
+ * };
+ * ```
+ *
+ * @param source - A file path, `Blob`, `Buffer`, `RandomAccessFile` or stream.
+ * @param init? - An optional RequestInit configuration object.
+ */
+export const download = async (source: string | FileSource, init?: FileInit) => {
+  return sendDownload(typeof source === 'string' ? await openFile(source) : source, init);
+};
+
+/**
+ * Creates a brotli `Compressor` with Node's zlib, for the `brotli`
+ * option of `compress`. Runtimes only have `CompressionStream` for
+ * gzip and deflate, so brotli is opt-in to keep the main entry free of
+ * Node built-ins.
+ *
+ * ```ts
+ * import type { LoaderArgs } from "@remix-run/node";
+ * import { ok } from 'remix-response';
+ * import { brotli } from 'remix-response/node';
+ * export const loader = async ({ request }: LoaderArgs) => {
+ *   return ok({ report: getReport() }, { request, compress: { brotli } });
+ * };
+ * ```
+ *
+ * @param options? - Options for `zlib.createBrotliCompress`.
+ */
+export const brotli = (options?: BrotliOptions): Compressor => {
+  const compressor = createBrotliCompress(options);
+  const chunks: AsyncIterator<Buffer> = compressor[Symbol.asyncIterator]();
+  return {
+    readable: new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        const result = await chunks.next();
+        if (result.done) {
+          controller.close();
+        } else {
+          controller.enqueue(new Uint8Array(result.value));
+        }
+      },
+      async cancel() {
+        await chunks.return?.();
+      },
+    }),
+    writable: new WritableStream<Uint8Array>({
+      write: chunk => {
+        return new Promise<void>((resolve, reject) => {
+          compressor.write(chunk, error => (error ? reject(error) : resolve()));
+        });
+      },
+      close: () => new Promise<void>(resolve => compressor.end(resolve)),
+      abort: reason => {
+        compressor.destroy(reason instanceof Error ? reason : new Error(String(reason)));
+      },
+    }),
+  };
+};
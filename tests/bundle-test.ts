@@ -0,0 +1,20 @@
+import { build } from 'esbuild';
+import { expect, describe, it } from 'vitest';
+
+// Edge runtimes don't have Node's built-in modules, so the main entry
+// must bundle without them. Node only code goes in `src/node.ts`.
+describe('bundle', () => {
+  for (const platform of ['browser', 'neutral'] as const) {
+    it(`bundles the main entry for the ${platform} platform`, async () => {
+      const result = await build({
+        entryPoints: ['src/index.ts'],
+        bundle: true,
+        platform,
+        format: 'esm',
+        write: false,
+        logLevel: 'silent',
+      });
+      expect(result.errors).toEqual([]);
+    });
+  }
+});
@@ -1,6 +1,36 @@
-import { ok, noContent } from '../src/index';
+import {
+  ok,
+  notFound,
+  noContent,
+  negotiate,
+  createResponseHelpers,
+  isSettledError,
+  isSettledData,
+  parseSettledResponse,
+  unwrapSettled,
+  cacheControl,
+  jsonSerializer,
+  validationError,
+  fieldErrors,
+  eventStream,
+  createSerializer,
+  parse,
+  typedSerializer,
+  found,
+  safeRedirect,
+  seeOther,
+  readFlash,
+  setCookie,
+  file,
+  download,
+  ndjson,
+  paginated,
+  tooManyRequests,
+  serviceUnavailable,
+  createRateLimiter,
+} from '../src/index';
 import * as remixResponse from '../src/index';
-import { expect, describe, it } from 'vitest';
+import { expect, describe, it, vi } from 'vitest';
 
 describe('response object', async () => {
   it('returns a response object', async () => {
@@ -62,6 +92,22 @@ describe('response object', async () => {
     expect(response.status).toBe(500);
   });
 
+  it('handles rejections when the body is never read', async () => {
+    const unhandled = vi.fn();
+    process.on('unhandledRejection', unhandled);
+    try {
+      ok({ a: Promise.reject(new Error('a')) });
+      ok(
+        { a: Promise.reject(new Error('a')) },
+        { schema: { '~standard': { version: 1, vendor: 'test', validate: value => ({ value }) } } }
+      );
+      await new Promise(resolve => setTimeout(resolve, 10));
+      expect(unhandled).not.toHaveBeenCalled();
+    } finally {
+      process.off('unhandledRejection', unhandled);
+    }
+  });
+
   it('serializes errors', async () => {
     const response = ok({
       a: Promise.reject(new TypeError('asdf')),
@@ -79,42 +125,1740 @@ describe('response object', async () => {
   });
 });
 
+describe('serializers', () => {
+  it('uses the serializer for the response body', async () => {
+    const response = await ok(
+      { a: Promise.resolve('a') },
+      { serializer: { stringify: value => `custom:${JSON.stringify(value)}` } }
+    );
+    expect(await response.text()).toBe('custom:{"a":"a"}');
+  });
+
+  it('round trips values that JSON does not support', async () => {
+    const data = {
+      date: new Date('2023-01-01T00:00:00.000Z'),
+      bigint: BigInt('9007199254740993'),
+      map: new Map([['a', new Set([1, 2])]]),
+      regexp: /a+/gi,
+      url: new URL('https://www.example.com/'),
+      missing: undefined,
+      infinity: Infinity,
+      nested: [{ $type: 'Date', value: 'not a date' }],
+    };
+    const response = await ok({ data: Promise.resolve(data) }, { serializer: typedSerializer });
+    const text = await response.text();
+    expect(parse(text)).toEqual({ data });
+    expect(parse(JSON.parse(text))).toEqual({ data });
+  });
+
+  it('uses the error replacer for rejected promises', async () => {
+    const response = ok({ a: Promise.reject(new TypeError('asdf')) }, { serializer: typedSerializer });
+    expect(parse(await response.text())).toEqual({
+      a: { status: 'rejected', reason: { isError: true, message: 'asdf', name: 'TypeError' } },
+    });
+  });
+
+  it('supports custom types', async () => {
+    class Money {
+      constructor(public cents: number) {}
+    }
+    const serializer = createSerializer({
+      Money: {
+        test: (value): value is Money => value instanceof Money,
+        encode: value => value.cents,
+        decode: value => new Money(value),
+      },
+    });
+    const response = await ok({ price: new Money(100), date: new Date(0) }, { serializer });
+    const result = serializer.parse<{ price: Money; date: Date }>(await response.text());
+    expect(result.price).toBeInstanceOf(Money);
+    expect(result.price.cents).toBe(100);
+    expect(result.date).toEqual(new Date(0));
+  });
+});
+
+describe('problem details', () => {
+  it('sends an application/problem+json body', async () => {
+    const response = await notFound(
+      { resourceId: Promise.resolve(1) },
+      { problem: { detail: 'No user with id 1', instance: '/users/1' } }
+    );
+    expect(response.status).toBe(404);
+    expect(response.headers.get('content-type')).toBe('application/problem+json; charset=utf-8');
+    expect(await response.json()).toEqual({
+      type: 'about:blank',
+      title: 'Not Found',
+      status: 404,
+      detail: 'No user with id 1',
+      instance: '/users/1',
+      resourceId: 1,
+    });
+  });
+
+  it('uses problem details for thrown responses', async () => {
+    const response = notFound({ resourceId: 1 }, { problem: { type: 'https://example.com/not-found' } });
+    expect(await response.json()).toEqual({
+      type: 'https://example.com/not-found',
+      title: 'Not Found',
+      status: 404,
+      resourceId: { status: 'fulfilled', value: 1 },
+    });
+  });
+
+  it('describes the 500 when a promise rejects', async () => {
+    let response;
+    try {
+      await notFound({ a: Promise.reject('a') }, { problem: { title: 'Missing user', instance: '/users/1' } });
+    } catch (error) {
+      response = error;
+    }
+    expect(response.status).toBe(500);
+    expect(response.headers.get('content-type')).toBe('application/problem+json; charset=utf-8');
+    expect(await response.json()).toEqual({
+      type: 'about:blank',
+      title: 'Internal Server Error',
+      status: 500,
+      instance: '/users/1',
+      a: { status: 'rejected', reason: 'a' },
+    });
+  });
+});
+
+describe('validation errors', () => {
+  const zodError = {
+    name: 'ZodError',
+    issues: [
+      { code: 'invalid_string', path: ['email'], message: 'Invalid email' },
+      { code: 'too_small', path: ['email'], message: 'Too short' },
+      { code: 'invalid_type', path: ['address', 'street'], message: 'Required' },
+      { code: 'custom', path: [], message: 'Passwords do not match' },
+    ],
+  };
+
+  it('maps issues to field errors', () => {
+    expect(fieldErrors(zodError)).toEqual({
+      formErrors: ['Passwords do not match'],
+      fieldErrors: {
+        email: ['Invalid email', 'Too short'],
+        'address.street': ['Required'],
+      },
+    });
+  });
+
+  it('supports valibot style path segments and plain issue lists', () => {
+    expect(
+      fieldErrors([{ path: [{ key: 'items' }, { key: 0 }], message: 'Required' }, { message: 'Invalid' }])
+    ).toEqual({
+      formErrors: ['Invalid'],
+      fieldErrors: { 'items.0': ['Required'] },
+    });
+  });
+
+  it('creates a 422 response with the errors and data', async () => {
+    const response = await validationError(zodError, { values: Promise.resolve({ email: 'a' }) });
+    expect(response.status).toBe(422);
+    expect(await response.json()).toEqual({
+      values: { email: 'a' },
+      formErrors: ['Passwords do not match'],
+      fieldErrors: {
+        email: ['Invalid email', 'Too short'],
+        'address.street': ['Required'],
+      },
+    });
+  });
+
+  it('uses a custom adapter', async () => {
+    const response = await validationError(
+      { errors: { name: 'missing' } },
+      {},
+      { adapter: error => Object.entries(error.errors).map(([key, message]) => ({ path: [key], message })) }
+    );
+    expect(await response.json()).toEqual({ formErrors: [], fieldErrors: { name: ['missing'] } });
+  });
+});
+
+describe('content negotiation', () => {
+  const renderers = {
+    'application/json': jsonSerializer,
+    'text/csv': ({ rows }) => rows.map(row => row.join(',')).join('\n'),
+  };
+  const data = { rows: Promise.resolve([['a', 'b']]) };
+  const request = (accept?: string) =>
+    new Request('https://www.example.com/', { headers: accept ? { Accept: accept } : {} });
+
+  it('renders the media type with the highest quality', async () => {
+    const response = await negotiate(request('application/json;q=0.5, text/csv'), data, renderers);
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('text/csv; charset=utf-8');
+    expect(response.headers.get('vary')).toBe('Accept');
+    expect(await response.text()).toBe('a,b');
+  });
+
+  it('prefers the most specific media range', async () => {
+    const response = await negotiate(request('text/*;q=0.1, */*;q=0.5, text/csv;q=0'), data, renderers);
+    expect(response.headers.get('content-type')).toBe('application/json; charset=utf-8');
+    expect(await response.json()).toEqual({ rows: [['a', 'b']] });
+  });
+
+  it('uses the first renderer without an Accept header', async () => {
+    const response = await negotiate(request(), data, renderers);
+    expect(response.headers.get('content-type')).toBe('application/json; charset=utf-8');
+  });
+
+  it('serializes rejected promises as JSON', async () => {
+    let response;
+    try {
+      await negotiate(request('text/csv'), { rows: Promise.reject('oops') }, renderers);
+    } catch (error) {
+      response = error;
+    }
+    expect(response.status).toBe(500);
+    expect(response.headers.get('content-type')).toBe('application/json; charset=utf-8');
+    expect(await response.json()).toEqual({ rows: { status: 'rejected', reason: 'oops' } });
+  });
+
+  it('responds with a 406 when nothing is acceptable', async () => {
+    const response = await negotiate(request('application/xml'), data, renderers);
+    expect(response.status).toBe(406);
+    expect(await response.json()).toEqual({ accepted: ['application/json', 'text/csv'] });
+  });
+
+  it('does not apply the options for the data to the 406', async () => {
+    const schema: remixResponse.StandardSchema = {
+      '~standard': { version: 1, vendor: 'test', validate: () => ({ issues: [{ message: 'Invalid' }] }) },
+    };
+    const response = await negotiate(request('application/xml'), data, renderers, {
+      schema,
+      etag: true,
+      headers: { 'X-Custom': 'a' },
+    });
+    expect(response.status).toBe(406);
+    expect(response.headers.get('x-custom')).toBe('a');
+    expect(response.headers.has('etag')).toBe(false);
+  });
+});
+
+describe('conditional requests', () => {
+  const data = { a: Promise.resolve('a') };
+  const request = (headers: Record<string, string>, method = 'GET') =>
+    new Request('https://www.example.com/', { method, headers });
+
+  it('sends a strong ETag computed from the body', async () => {
+    const response = await ok(data, { etag: true });
+    const etag = response.headers.get('etag');
+    expect(etag).toMatch(/^"[a-z0-9]+-[a-z0-9]+"$/);
+    const other = await ok({ a: 'b' }, { etag: true });
+    expect(other.headers.get('etag')).not.toBe(etag);
+    const weak = await ok(data, { etag: 'weak' });
+    expect(weak.headers.get('etag')).toBe(`W/${etag}`);
+  });
+
+  it('responds with a bodiless 304 when If-None-Match matches', async () => {
+    const { headers } = await ok(data, { etag: 'weak' });
+    const response = await ok(data, {
+      etag: 'weak',
+      request: request({ 'If-None-Match': `"other", ${headers.get('etag')}` }),
+      headers: { 'Cache-Control': 'max-age=0' },
+    });
+    expect(response.status).toBe(304);
+    expect(response.body).toBe(null);
+    expect(response.headers.get('etag')).toBe(headers.get('etag'));
+    expect(response.headers.get('cache-control')).toBe('max-age=0');
+  });
+
+  it('responds with the body when If-None-Match does not match', async () => {
+    const response = await ok(data, { etag: 'v1', request: request({ 'If-None-Match': '"v2"' }) });
+    expect(response.status).toBe(200);
+    expect(response.headers.get('etag')).toBe('"v1"');
+    expect(await response.json()).toEqual({ a: 'a' });
+  });
+
+  it('responds with a 304 when not modified since', async () => {
+    const lastModified = new Date('2015-10-21T07:28:00.000Z');
+    const response = await ok(data, {
+      lastModified,
+      request: request({ 'If-Modified-Since': 'Wed, 21 Oct 2015 07:28:00 GMT' }),
+    });
+    expect(response.status).toBe(304);
+    expect(response.headers.get('last-modified')).toBe('Wed, 21 Oct 2015 07:28:00 GMT');
+
+    const modified = await ok(data, {
+      lastModified,
+      request: request({ 'If-Modified-Since': 'Tue, 20 Oct 2015 07:28:00 GMT' }),
+    });
+    expect(modified.status).toBe(200);
+  });
+
+  it('responds with a 412 when If-Match does not match', async () => {
+    const response = await ok(data, { etag: 'v1', request: request({ 'If-Match': '"v2"' }, 'PUT') });
+    expect(response.status).toBe(412);
+
+    const matching = await ok(data, { etag: 'v1', request: request({ 'If-Match': '"v1"' }, 'PUT') });
+    expect(matching.status).toBe(200);
+  });
+
+  it('responds with a 412 when modified since If-Unmodified-Since', async () => {
+    const response = await ok(data, {
+      lastModified: new Date('2015-10-22T00:00:00.000Z'),
+      request: request({ 'If-Unmodified-Since': 'Wed, 21 Oct 2015 07:28:00 GMT' }, 'PUT'),
+    });
+    expect(response.status).toBe(412);
+  });
+});
+
+describe('cache control', () => {
+  it('builds a Cache-Control header from directives', () => {
+    expect(cacheControl({ public: true, maxAge: 60, sMaxAge: 300, staleWhileRevalidate: 30, staleIfError: 600 })).toBe(
+      'public, max-age=60, s-maxage=300, stale-while-revalidate=30, stale-if-error=600'
+    );
+    expect(cacheControl({ noStore: true })).toBe('no-store');
+  });
+
+  it('builds a Cache-Control header from presets', () => {
+    expect(cacheControl('static')).toBe('public, max-age=31536000, immutable');
+    expect(cacheControl('private-short')).toBe('private, max-age=60');
+    expect(cacheControl('no-cache')).toBe('no-cache');
+  });
+
+  it('rejects invalid directives', () => {
+    expect(() => cacheControl({ public: true, private: true })).toThrow(TypeError);
+    expect(() => cacheControl({ maxAge: -1 })).toThrow(RangeError);
+    expect(() => cacheControl({ maxAge: 1.5 })).toThrow(RangeError);
+    expect(() => cacheControl('forever' as any)).toThrow(TypeError);
+  });
+
+  it('sets the Cache-Control and Vary headers on responses', async () => {
+    const response = await ok(
+      { a: 'a' },
+      {
+        cache: { private: true, maxAge: 60, vary: ['Cookie', 'Accept'] },
+        headers: { vary: 'Accept', 'cache-control': 'x' },
+      }
+    );
+    expect(response.headers.get('cache-control')).toBe('private, max-age=60');
+    expect(response.headers.get('vary')).toBe('Accept, Cookie');
+    expect(noContent({ cache: 'no-store' }).headers.get('cache-control')).toBe('no-store');
+  });
+});
+
+describe('timeouts and fallbacks', () => {
+  const never = () => new Promise(() => {});
+
+  it('rejects promises that take longer than the timeout', async () => {
+    let response;
+    try {
+      await ok({ a: 'a', slow: never() }, { timeout: 10 });
+    } catch (error) {
+      response = error;
+    }
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({
+      a: { status: 'fulfilled', value: 'a' },
+      slow: {
+        status: 'rejected',
+        reason: { isError: true, name: 'TimeoutError', message: 'slow timed out after 10ms' },
+      },
+    });
+  });
+
+  it('uses the fallback for timeouts and rejections and reports the degraded keys', async () => {
+    const response = await ok(
+      { a: Promise.resolve('a'), slow: never(), broken: Promise.reject(new Error('nope')) },
+      { timeout: 10, fallback: null }
+    );
+    expect(response.status).toBe(200);
+    expect(response.headers.get('x-degraded-keys')).toBe('broken, slow');
+    expect(await response.json()).toEqual({ a: 'a', slow: null, broken: null });
+  });
+
+  it('does not report the degraded keys of thrown responses', async () => {
+    const response = ok({ slow: never() }, { timeout: 10, fallback: null });
+    expect(response.headers.has('x-degraded-keys')).toBe(false);
+    expect(await response.json()).toEqual({ slow: { status: 'fulfilled', value: null } });
+    expect(response.headers.has('x-degraded-keys')).toBe(false);
+  });
+
+  it('supports per key options', async () => {
+    const response = await ok(
+      { slow: never(), slower: never(), fast: Promise.resolve('fast') },
+      { keys: { slow: { timeout: 10, fallback: [] }, slower: { timeout: 20, fallback: 'default' } } }
+    );
+    expect(await response.json()).toEqual({ slow: [], slower: 'default', fast: 'fast' });
+  });
+
+  it('stops waiting when the signal aborts', async () => {
+    const controller = new AbortController();
+    const response = ok({ a: never(), b: never() }, { signal: controller.signal, keys: { b: { fallback: 'b' } } });
+    controller.abort();
+    let error;
+    try {
+      await response;
+    } catch (e) {
+      error = e;
+    }
+    expect(error.status).toBe(500);
+    const body = await error.json();
+    expect(body.a.status).toBe('rejected');
+    expect(body.b).toEqual({ status: 'fulfilled', value: 'b' });
+  });
+});
+
+describe('deep resolution', () => {
+  it('only resolves top level promises by default', async () => {
+    const response = await ok({ user: { profile: Promise.resolve('profile') } });
+    expect(await response.json()).toEqual({ user: { profile: {} } });
+  });
+
+  it('resolves nested promises in objects and arrays', async () => {
+    const shared = { id: Promise.resolve(1) };
+    const response = await ok(
+      {
+        user: { profile: Promise.resolve({ name: Promise.resolve('name') }), date: new Date(0) },
+        list: Promise.resolve([Promise.resolve('a'), { b: Promise.resolve('b') }]),
+        first: shared,
+        second: shared,
+      },
+      { deep: true }
+    );
+    expect(await response.json()).toEqual({
+      user: { profile: { name: 'name' }, date: '1970-01-01T00:00:00.000Z' },
+      list: ['a', { b: 'b' }],
+      first: { id: 1 },
+      second: { id: 1 },
+    });
+  });
+
+  it('rejects circular structures', async () => {
+    const circular: Record<string, unknown> = { a: Promise.resolve('a') };
+    circular.self = circular;
+    const response = ok({ circular }, { deep: true });
+    expect(await response.json()).toEqual({
+      circular: {
+        status: 'rejected',
+        reason: { isError: true, name: 'TypeError', message: 'Cannot resolve a circular structure' },
+      },
+    });
+  });
+});
+
+describe('error policies', () => {
+  class DatabaseError extends Error {
+    code = 'ECONNREFUSED';
+    cause?: unknown;
+    constructor(message: string, options?: { cause?: unknown }) {
+      super(message);
+      this.name = 'DatabaseError';
+      this.cause = options?.cause;
+    }
+  }
+
+  it('redacts errors in production mode', async () => {
+    const redacted: [Error, string][] = [];
+    const error = new DatabaseError('connection to db-1.internal refused');
+    const response = ok(
+      { a: Promise.reject(error) },
+      { errorPolicy: { mode: 'production', correlationId: () => 'abc', onRedact: (...args) => redacted.push(args) } }
+    );
+    let rejected;
+    try {
+      await response;
+    } catch (e) {
+      rejected = e;
+    }
+    const expected = {
+      a: {
+        status: 'rejected',
+        reason: { isError: true, name: 'Error', message: 'Internal Server Error', correlationId: 'abc' },
+      },
+    };
+    expect(await response.json()).toEqual(expected);
+    expect(await rejected.json()).toEqual(expected);
+    expect(redacted).toEqual([[error, 'abc']]);
+  });
+
+  it('includes the stack, code and cause chain in development mode', async () => {
+    const cause = new Error('socket closed');
+    const response = ok(
+      { a: Promise.reject(new DatabaseError('query failed', { cause })) },
+      { errorPolicy: 'development' }
+    );
+    const { reason } = (await response.json()).a;
+    expect(reason).toMatchObject({
+      isError: true,
+      name: 'DatabaseError',
+      message: 'query failed',
+      code: 'ECONNREFUSED',
+      cause: { isError: true, name: 'Error', message: 'socket closed' },
+    });
+    expect(reason.stack).toContain('query failed');
+    expect(reason.cause.stack).toContain('socket closed');
+  });
+
+  it('maps domain errors with a custom mapper', async () => {
+    class NotAllowedError extends Error {}
+    const response = ok(
+      { a: Promise.reject(new NotAllowedError('no')), b: Promise.reject(new Error('secret')) },
+      {
+        errorPolicy: {
+          mode: 'production',
+          correlationId: () => 'abc',
+          map: error => (error instanceof NotAllowedError ? { message: 'Not allowed', code: 403 } : undefined),
+        },
+      }
+    );
+    expect(await response.json()).toEqual({
+      a: { status: 'rejected', reason: { isError: true, name: 'Error', message: 'Not allowed', code: 403 } },
+      b: {
+        status: 'rejected',
+        reason: { isError: true, name: 'Error', message: 'Internal Server Error', correlationId: 'abc' },
+      },
+    });
+  });
+});
+
+describe('settled data helpers', () => {
+  it('parses a settled response and rebuilds errors', async () => {
+    const response = ok({
+      a: Promise.resolve('a'),
+      b: Promise.reject(new TypeError('bad type')),
+      c: Promise.reject('plain'),
+    });
+    const { values, errors } = await parseSettledResponse(response);
+    expect(values).toEqual({ a: 'a' });
+    expect(errors.b).toBeInstanceOf(TypeError);
+    expect((errors.b as Error).message).toBe('bad type');
+    expect(errors.c).toBe('plain');
+  });
+
+  it('rejects responses that are not settled data', async () => {
+    const response = await ok({ a: 'a' });
+    await expect(parseSettledResponse(response)).rejects.toThrow(TypeError);
+  });
+
+  it('detects route errors with settled data', () => {
+    const data = { a: { status: 'rejected', reason: { isError: true, name: 'CustomError', message: 'oops' } } };
+    const error = { status: 500, statusText: 'Internal Server Error', data };
+    expect(isSettledError(error)).toBe(true);
+    expect(isSettledError(new Error('oops'))).toBe(false);
+    expect(isSettledError({ status: 404, data: 'Not Found' })).toBe(false);
+
+    const { errors } = unwrapSettled(data);
+    expect(errors.a).toBeInstanceOf(Error);
+    expect((errors.a as Error).name).toBe('CustomError');
+  });
+
+  it('only accepts objects of settled results', () => {
+    expect(isSettledData({ a: { status: 'fulfilled', value: 1 }, b: { status: 'rejected', reason: 'no' } })).toBe(true);
+    expect(isSettledData({ a: { status: 'fulfilled' } })).toBe(true);
+    expect(isSettledData({})).toBe(false);
+    expect(isSettledData([])).toBe(false);
+    expect(isSettledData({ a: { status: 'pending' } })).toBe(false);
+    expect(isSettledData({ a: { status: 'fulfilled', value: 1, extra: true } })).toBe(false);
+    expect(isSettledData({ a: { status: 'fulfilled', value: 1 }, b: 'b' })).toBe(false);
+  });
+});
+
+describe('deferred responses', () => {
+  it('streams the critical data followed by each settled promise', async () => {
+    let resolveSlow;
+    const response = ok(
+      {
+        critical: 'now',
+        fast: Promise.resolve('fast'),
+        slow: new Promise(resolve => (resolveSlow = resolve)),
+      },
+      { deferred: true }
+    );
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('text/remix-deferred; charset=utf-8');
+    resolveSlow('slow');
+    expect(await response.text()).toBe(
+      [
+        '{"critical":"now","fast":"__deferred_promise:fast","slow":"__deferred_promise:slow"}',
+        'data:{"fast":"fast"}',
+        'data:{"slow":"slow"}',
+        '',
+      ].join('\n\n')
+    );
+  });
+
+  it('streams rejected promises as errors without changing the status', async () => {
+    const response = await ok(
+      {
+        a: Promise.reject(new TypeError('asdf')),
+      },
+      { deferred: true }
+    );
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe(
+      '{"a":"__deferred_promise:a"}\n\nerror:{"a":{"message":"asdf","name":"TypeError","isError":true}}\n\n'
+    );
+  });
+
+  it('wraps rejections that are not errors in a message', async () => {
+    const response = await ok(
+      { a: Promise.reject('nope'), b: Promise.reject({ message: 'kept' }) },
+      { deferred: true }
+    );
+    expect(await response.text()).toBe(
+      '{"a":"__deferred_promise:a","b":"__deferred_promise:b"}\n\nerror:{"a":{"message":"nope"}}\n\nerror:{"b":{"message":"kept"}}\n\n'
+    );
+  });
+});
+
+describe('web streams', () => {
+  const readChunks = async (response: Response) => {
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    const chunks: string[] = [];
+    for (let result = await reader.read(); !result.done; result = await reader.read()) {
+      chunks.push(decoder.decode(result.value));
+    }
+    return chunks;
+  };
+
+  it('streams the body of thrown responses', async () => {
+    const response = ok({ a: Promise.resolve('a') });
+    expect(response.body).toBeInstanceOf(ReadableStream);
+    expect(await readChunks(response)).toEqual(['{"a":{"status":"fulfilled","value":"a"}}']);
+  });
+
+  it('streams deferred data in chunks', async () => {
+    const response = ok({ critical: 1, later: Promise.resolve(2) }, { deferred: true });
+    expect(await readChunks(response)).toEqual([
+      '{"critical":1,"later":"__deferred_promise:later"}\n\n',
+      'data:{"later":2}\n\n',
+    ]);
+  });
+
+  it('sends async iterables such as node streams as files', async () => {
+    const { Readable } = await import('node:stream');
+    const response = await file(Readable.from([new TextEncoder().encode('a'), new TextEncoder().encode('b')]));
+    expect(await response.text()).toBe('ab');
+  });
+
+  it('stops event streams when the client cancels', async () => {
+    let cleanedUp = false;
+    const response = eventStream(() => () => (cleanedUp = true));
+    await response.body!.cancel();
+    expect(cleanedUp).toBe(true);
+  });
+});
+
+describe('event streams', () => {
+  it('streams events from an async iterable', async () => {
+    async function* events() {
+      yield { data: 'hello' };
+      yield { event: 'update', id: 1, data: { a: 'b' } };
+      yield { comment: 'ping', data: 'multi\nline' };
+    }
+    const response = eventStream(events(), { retry: 1000 });
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('text/event-stream; charset=utf-8');
+    expect(response.headers.get('cache-control')).toBe('no-cache');
+    expect(await response.text()).toBe(
+      [
+        'retry: 1000\n\n',
+        'data: hello\n\n',
+        'event: update\nid: 1\ndata: {"a":"b"}\n\n',
+        ': ping\ndata: multi\ndata: line\n\n',
+      ].join('')
+    );
+  });
+
+  it('sends an error event when the async iterable throws', async () => {
+    async function* events() {
+      yield { data: 'a' };
+      throw new Error('boom');
+    }
+    const response = eventStream(events());
+    expect(await response.text()).toBe(
+      'data: a\n\nevent: error\ndata: {"message":"boom","name":"Error","isError":true}\n\n'
+    );
+  });
+
+  it('cleans up a subscription when the signal aborts', async () => {
+    const controller = new AbortController();
+    let cleanedUp = false;
+    const response = eventStream(
+      send => {
+        send({ event: 'open' });
+        return () => {
+          cleanedUp = true;
+        };
+      },
+      { signal: controller.signal }
+    );
+    controller.abort();
+    expect(cleanedUp).toBe(true);
+    expect(await response.text()).toBe('event: open\n\n');
+  });
+
+  it('closes when the subscriber calls close', async () => {
+    const response = eventStream((send, close) => {
+      send({ data: 'only' });
+      close();
+    });
+    expect(await response.text()).toBe('data: only\n\n');
+  });
+
+  it('sets Cache-Control from the cache option', () => {
+    expect(eventStream(() => {}).headers.get('cache-control')).toBe('no-cache');
+    expect(eventStream(() => {}, { cache: 'no-store' }).headers.get('cache-control')).toBe('no-store');
+  });
+
+  it('stops the heartbeat when the subscriber throws', async () => {
+    vi.useFakeTimers();
+    try {
+      const error = new Error('subscribe');
+      const controller = new AbortController();
+      const response = eventStream(
+        () => {
+          throw error;
+        },
+        { heartbeat: 1000, signal: controller.signal }
+      );
+      expect(vi.getTimerCount()).toBe(0);
+      await expect(response.text()).rejects.toThrow();
+      controller.abort();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe('createResponseHelpers', () => {
+  it('applies the defaults to every helper', async () => {
+    const helpers = createResponseHelpers({
+      headers: { 'X-Frame-Options': 'DENY' },
+      serializer: typedSerializer,
+      cache: 'private-short',
+    });
+    const response = await helpers.ok({ date: Promise.resolve(new Date(0)) }, { headers: { 'X-Custom': 'a' } });
+    expect(response.headers.get('x-frame-options')).toBe('DENY');
+    expect(response.headers.get('x-custom')).toBe('a');
+    expect(response.headers.get('cache-control')).toBe('private, max-age=60');
+    expect(parse(await response.text())).toEqual({ date: new Date(0) });
+
+    const override = await helpers.notFound({}, { cache: 'no-store' });
+    expect(override.status).toBe(404);
+    expect(override.headers.get('cache-control')).toBe('no-store');
+
+    const redirect = helpers.seeOther('/done');
+    expect(redirect.status).toBe(303);
+    expect(redirect.headers.get('x-frame-options')).toBe('DENY');
+
+    expect(helpers.noContent().headers.get('x-frame-options')).toBe('DENY');
+    expect(helpers.status(202)({}).status).toBe(202);
+  });
+
+  it('calls the hooks', async () => {
+    const statuses: number[] = [];
+    const errors: [unknown, string][] = [];
+    const helpers = createResponseHelpers({
+      onResponse: response => statuses.push(response.status),
+      onError: (error, key) => errors.push([error, key]),
+    });
+    await helpers.created({ a: 'a' });
+    try {
+      await helpers.ok({ b: Promise.reject('b') });
+    } catch (error) {
+      // rejected with a 500
+    }
+    expect(statuses).toEqual([201, 201, 200, 500]);
+    expect(errors).toEqual([['b', 'b']]);
+  });
+
+  it('logs errors thrown by onError', async () => {
+    const log = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const hookError = new Error('hook failed');
+    const helpers = createResponseHelpers({
+      onError: () => {
+        throw hookError;
+      },
+    });
+    const response = await helpers.ok({ a: Promise.reject('a') }, { fallback: null });
+    expect(await response.json()).toEqual({ a: null });
+    await expect(helpers.ok({ b: Promise.reject('b') })).rejects.toMatchObject({ status: 500 });
+    expect(log.mock.calls).toEqual([[hookError], [hookError]]);
+    log.mockRestore();
+  });
+
+  it('logs errors thrown by onResponse', async () => {
+    const log = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const hookError = new Error('hook failed');
+    try {
+      const helpers = createResponseHelpers({
+        onResponse: () => {
+          throw hookError;
+        },
+      });
+      const response = await helpers.ok({ a: Promise.resolve('a') });
+      expect(await response.json()).toEqual({ a: 'a' });
+      expect(helpers.seeOther('/done').status).toBe(303);
+      expect(log.mock.calls).toEqual([[hookError], [hookError], [hookError]]);
+    } finally {
+      log.mockRestore();
+    }
+  });
+
+  it('applies the defaults to the stream, file and pagination helpers', async () => {
+    const statuses: number[] = [];
+    const helpers = createResponseHelpers({
+      headers: { 'X-Frame-Options': 'DENY' },
+      cache: 'private-short',
+      onResponse: response => statuses.push(response.status),
+    });
+    const baseUrl = 'https://example.com/posts';
+    const responses = [
+      await helpers.paginated(['a'], { page: 1, perPage: 1, baseUrl }),
+      helpers.eventStream(() => {}),
+      helpers.ndjson((async function* () {})()),
+      await helpers.file(new Blob(['a'])),
+      await helpers.download(new Blob(['a']), { filename: 'a.txt' }),
+    ];
+    for (const response of responses) {
+      expect(response.headers.get('x-frame-options')).toBe('DENY');
+    }
+    expect(responses.map(response => response.headers.get('cache-control'))).toEqual([
+      'private, max-age=60',
+      'no-cache',
+      'private, max-age=60',
+      'private, max-age=60',
+      'private, max-age=60',
+    ]);
+    expect(statuses).toEqual([200, 200, 200, 200, 200, 200]);
+  });
+
+  it('validates with the defaults of the helpers', async () => {
+    const helpers = createResponseHelpers({ headers: { 'X-Frame-Options': 'DENY' } });
+    const response = await helpers.validationError([{ path: ['email'], message: 'Required' }], { values: {} });
+    expect(response.status).toBe(422);
+    expect(response.headers.get('x-frame-options')).toBe('DENY');
+    expect(await response.json()).toEqual({ values: {}, formErrors: [], fieldErrors: { email: ['Required'] } });
+  });
+
+  it('has the same helpers as the module', () => {
+    const helpers = createResponseHelpers();
+    expect(Object.keys(helpers)).toHaveLength(65);
+    for (const name of Object.keys(helpers)) {
+      expect(typeof remixResponse[name]).toBe('function');
+    }
+  });
+});
+
+describe('safe redirects', () => {
+  it('resolves relative urls against the base', () => {
+    const request = new Request('https://example.com/login?redirectTo=/admin');
+    expect(found('/admin', { base: request }).headers.get('location')).toBe('https://example.com/admin');
+    expect(found('next', { base: 'https://example.com/a/b' }).headers.get('location')).toBe(
+      'https://example.com/a/next'
+    );
+    expect(found('/admin?tab=1#top', {}).headers.get('location')).toBe('/admin?tab=1#top');
+  });
+
+  it('only allows redirects to allowed hosts', () => {
+    const options = { base: 'https://example.com', allowedHosts: ['auth.example.org', '*.example.net'] };
+    expect(found('https://auth.example.org/cb', options).headers.get('location')).toBe('https://auth.example.org/cb');
+    expect(found('//cdn.example.net/a', options).headers.get('location')).toBe('https://cdn.example.net/a');
+    expect(() => found('https://evil.com', options)).toThrow(TypeError);
+    expect(() => found('//evil.com', options)).toThrow(TypeError);
+    expect(() => found('/\\evil.com', options)).toThrow(TypeError);
+  });
+
+  it('rejects unsafe schemes', () => {
+    expect(() => found('javascript:alert(1)', {})).toThrow(TypeError);
+    expect(() => found('java\tscript:alert(1)', {})).toThrow(TypeError);
+    expect(found('data:text/html,hi', { fallback: '/' }).headers.get('location')).toBe('/');
+    expect(() => seeOther(' JavaScript:alert(1)', { headers: { 'X-Custom': 'a' } })).toThrow(TypeError);
+    expect(() => seeOther('data:text/html,hi', { statusText: 'See Other' })).toThrow(TypeError);
+    expect(seeOther('https://www.example.com/', { headers: {} }).headers.get('location')).toBe(
+      'https://www.example.com/'
+    );
+  });
+
+  it('does not validate without options', () => {
+    expect(found('https://www.example.com/').headers.get('location')).toBe('https://www.example.com/');
+  });
+
+  it('returns safe redirectTo params', () => {
+    expect(safeRedirect('/dashboard?tab=1')).toBe('/dashboard?tab=1');
+    expect(safeRedirect('//evil.com')).toBe('/');
+    expect(safeRedirect('/\\evil.com')).toBe('/');
+    expect(safeRedirect('https://evil.com', '/home')).toBe('/home');
+    expect(safeRedirect(null, '/home')).toBe('/home');
+  });
+});
+
+describe('redirects with init', () => {
+  it('sets headers on redirects', () => {
+    const response = seeOther('/done', {
+      headers: [
+        ['Set-Cookie', 'a=1'],
+        ['X-Custom', 'a'],
+      ],
+      statusText: 'Done',
+    });
+    expect(response.status).toBe(303);
+    expect(response.statusText).toBe('Done');
+    expect(response.headers.get('location')).toBe('/done');
+    expect(response.headers.get('set-cookie')).toBe('a=1');
+    expect(response.headers.get('x-custom')).toBe('a');
+  });
+
+  it('sets Cache-Control from the cache option', () => {
+    const response = remixResponse.movedPermanently('/new', { cache: 'static' });
+    expect(response.headers.get('cache-control')).toBe(cacheControl('static'));
+    expect(response.headers.get('location')).toBe('/new');
+  });
+
+  it('signs HMAC-SHA256 like node', async () => {
+    const { createHmac } = await import('node:crypto');
+    const secret = 'k'.repeat(100);
+    const message = 'é'.repeat(200000);
+    const response = await seeOther('/', { flash: { message, secrets: [secret] } });
+    const cookie = decodeURIComponent(response.headers.get('set-cookie')!.split(';')[0].split('=')[1]);
+    const [value, signature] = cookie.split('.');
+    expect(signature).toBe(createHmac('sha256', secret).update(value).digest('base64url'));
+  });
+
+  it('sets the flash cookie on awaited thrown redirects', async () => {
+    const flash = { message: 'Saved', secrets: ['a'] };
+    const pending: Promise<Response> = seeOther('/projects', { flash });
+    expect(pending).toBeInstanceOf(Promise);
+    await pending;
+
+    const thrown = await (async () => {
+      throw await seeOther('/projects', { flash });
+    })().catch(error => error);
+    expect(thrown).toBeInstanceOf(Response);
+    expect(thrown.status).toBe(303);
+    expect(thrown.headers.get('set-cookie')).toMatch(/^__flash=/);
+  });
+
+  it('reads flash messages from the next request', async () => {
+    const secrets = ['new', 'old'];
+    const response = await seeOther('/projects', { flash: { message: { toast: 'Saved ✓' }, secrets: ['old'] } });
+    const cookie = response.headers.get('set-cookie')!;
+    expect(cookie).toMatch(/^__flash=.+; Path=\/; HttpOnly; SameSite=Lax$/);
+
+    const request = new Request('https://example.com/projects', { headers: { Cookie: cookie.split(';')[0] } });
+    const { message, headers } = await readFlash<{ toast: string }>(request, { secrets });
+    expect(message).toEqual({ toast: 'Saved ✓' });
+    expect(headers['Set-Cookie']).toBe('__flash=; Path=/; Max-Age=0; HttpOnly; SameSite=Lax');
+  });
+
+  it('ignores missing and tampered flash cookies', async () => {
+    const secrets = ['secret'];
+    expect(await readFlash(new Request('https://example.com'), { secrets })).toEqual({
+      message: undefined,
+      headers: {},
+    });
+
+    const cookie = (await seeOther('/', { flash: { message: 'a', secrets } })).headers.get('set-cookie')!.split(';')[0];
+    const tampered = new Request('https://example.com', { headers: { Cookie: cookie.replace('.', 'x.') } });
+    expect((await readFlash(tampered, { secrets })).message).toBeUndefined();
+    const wrongSecret = new Request('https://example.com', { headers: { Cookie: cookie } });
+    expect((await readFlash(wrongSecret, { secrets: ['other'] })).message).toBeUndefined();
+  });
+
+  it('explains when the Web Crypto API is missing', async () => {
+    vi.stubGlobal('crypto', undefined);
+    try {
+      const flash = { message: 'a', secrets: ['a'] };
+      await expect(seeOther('/', { flash })).rejects.toThrow('Flash messages need the Web Crypto API');
+      const request = new Request('https://example.com', { headers: { Cookie: '__flash=a.b' } });
+      await expect(readFlash(request, flash)).rejects.toThrow('Flash messages need the Web Crypto API');
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it('clears malformed flash cookies', async () => {
+    const request = new Request('https://example.com', { headers: { Cookie: '__flash=%E0%A4%A' } });
+    expect(await readFlash(request, { secrets: ['secret'] })).toEqual({
+      message: undefined,
+      headers: { 'Set-Cookie': '__flash=; Path=/; Max-Age=0; HttpOnly; SameSite=Lax' },
+    });
+  });
+});
+
+describe('headers and cookies', () => {
+  const setCookies = (response: Response) =>
+    Array.from(response.headers as unknown as Iterable<[string, string]>)
+      .filter(([name]) => name === 'set-cookie')
+      .map(([, value]) => value);
+
+  it('accepts every form of headers', async () => {
+    const headers = new Headers({ 'X-A': 'a' });
+    headers.append('Set-Cookie', 'a=1');
+    headers.append('Set-Cookie', 'b=2');
+    for (const init of [
+      headers,
+      [
+        ['X-A', 'a'],
+        ['Set-Cookie', 'a=1'],
+        ['Set-Cookie', 'b=2'],
+      ] as [string, string][],
+    ]) {
+      const response = await ok({}, { headers: init, cache: 'no-store' });
+      expect(response.headers.get('x-a')).toBe('a');
+      expect(response.headers.get('cache-control')).toBe('no-store');
+      expect(setCookies(response)).toEqual(['a=1', 'b=2']);
+    }
+    expect((await ok({}, { headers: { 'X-A': 'a' } })).headers.get('x-a')).toBe('a');
+  });
+
+  it('appends each cookie', async () => {
+    const cookies = [
+      { name: 'session', value: 'a b', httpOnly: true, secure: true, sameSite: 'Lax' as const, maxAge: 3600 },
+      { name: 'csrf', value: 'token', secure: true, sameSite: 'None' as const, partitioned: true },
+    ];
+    const expected = [
+      'session=a%20b; Path=/; Max-Age=3600; HttpOnly; Secure; SameSite=Lax',
+      'csrf=token; Path=/; Secure; SameSite=None; Partitioned',
+    ];
+    const response = await ok({}, { headers: [['Set-Cookie', 'theme=dark']], cookies });
+    expect(setCookies(response)).toEqual(['theme=dark', ...expected]);
+    expect(setCookies(noContent({ cookies }))).toEqual(expected);
+    expect(setCookies(seeOther('/', { cookies }))).toEqual(expected);
+    expect(setCookies(eventStream((async function* () {})(), { cookies }))).toEqual(expected);
+  });
+
+  it('builds cookies', () => {
+    const expires = new Date(0);
+    expect(setCookie({ name: 'a', value: '1', domain: 'example.com', path: '/app', expires })).toBe(
+      'a=1; Path=/app; Domain=example.com; Expires=Thu, 01 Jan 1970 00:00:00 GMT'
+    );
+    expect(() => setCookie({ name: 'a', value: '1', sameSite: 'None' })).toThrow(TypeError);
+    expect(() => setCookie({ name: 'a', value: '1', partitioned: true })).toThrow(TypeError);
+  });
+
+  it('merges the default cookies and headers', async () => {
+    const helpers = createResponseHelpers({
+      headers: [['X-Frame-Options', 'DENY']],
+      cookies: [{ name: 'a', value: '1' }],
+    });
+    const response = await helpers.ok({}, { cookies: [{ name: 'b', value: '2' }] });
+    expect(response.headers.get('x-frame-options')).toBe('DENY');
+    expect(setCookies(response)).toEqual(['a=1; Path=/', 'b=2; Path=/']);
+    expect(setCookies(helpers.found('/', { headers: { 'Set-Cookie': 'c=3' } }))).toEqual(['c=3', 'a=1; Path=/']);
+  });
+});
+
+describe('files', () => {
+  const rangeRequest = (range: string, headers: Record<string, string> = {}) =>
+    new Request('https://example.com/file', { headers: { Range: range, ...headers } });
+
+  it('sends blobs, buffers and streams', async () => {
+    const blob = await file(new Blob(['{}'], { type: 'application/json' }));
+    expect(blob.headers.get('content-type')).toBe('application/json');
+    expect(blob.headers.has('content-disposition')).toBe(false);
+
+    const buffer = await file(new TextEncoder().encode('abc'), { filename: 'logo.png' });
+    expect(buffer.headers.get('content-type')).toBe('image/png');
+    expect(await buffer.text()).toBe('abc');
+
+    const stream = await file(
+      new ReadableStream({
+        start(controller) {
+          controller.enqueue(new TextEncoder().encode('streamed'));
+          controller.close();
+        },
+      }),
+      { request: rangeRequest('bytes=0-1') }
+    );
+    expect(stream.status).toBe(200);
+    expect(stream.headers.get('content-type')).toBe('application/octet-stream');
+    expect(stream.headers.has('accept-ranges')).toBe(false);
+    expect(await stream.text()).toBe('streamed');
+  });
+
+  it('only reads the requested range of random access files', async () => {
+    const contents = new TextEncoder().encode('0123456789');
+    const read = vi.fn((start: number, end: number) => new Blob([contents.slice(start, end)]).stream());
+    const source = { size: contents.length, read, name: 'digits.txt', lastModified: 0 };
+    const response = await file(source, { request: rangeRequest('bytes=2-4') });
+    expect(response.status).toBe(206);
+    expect(response.headers.get('content-type')).toBe('text/plain; charset=utf-8');
+    expect(await response.text()).toBe('234');
+    expect(read).toHaveBeenCalledWith(2, 5);
+  });
+
+  it('encodes download filenames', async () => {
+    const response = await download(new Blob(['a,b']), { filename: 'bestellübersicht "2023".csv' });
+    expect(response.headers.get('content-type')).toBe('text/csv; charset=utf-8');
+    expect(response.headers.get('content-disposition')).toBe(
+      `attachment; filename="bestell_bersicht \\"2023\\".csv"; filename*=UTF-8''bestell%C3%BCbersicht%20%222023%22.csv`
+    );
+    expect((await download(new Blob(['a']))).headers.get('content-disposition')).toBe('attachment');
+  });
+
+  it('sends multiple ranges', async () => {
+    const response = await file(new Blob(['0123456789'], { type: 'text/plain' }), {
+      request: rangeRequest('bytes=0-1, -3'),
+    });
+    expect(response.status).toBe(206);
+    const boundary = response.headers.get('content-type')!.match(/^multipart\/byteranges; boundary=(\w+)$/)![1];
+    const body = await response.text();
+    expect(response.headers.get('content-length')).toBe(String(body.length));
+    expect(body).toBe(
+      [
+        `--${boundary}`,
+        'Content-Type: text/plain',
+        'Content-Range: bytes 0-1/10',
+        '',
+        '01',
+        `--${boundary}`,
+        'Content-Type: text/plain',
+        'Content-Range: bytes 7-9/10',
+        '',
+        '789',
+        `--${boundary}--`,
+        '',
+      ].join('\r\n')
+    );
+  });
+
+  it('merges overlapping and adjacent ranges', async () => {
+    const source = new Blob(['0123456789']);
+    const merged = await file(source, { request: rangeRequest('bytes=4-5, 0-1, 1-3') });
+    expect(merged.status).toBe(206);
+    expect(merged.headers.get('content-range')).toBe('bytes 0-5/10');
+    expect(await merged.text()).toBe('012345');
+
+    const repeated = Array.from({ length: 200 }, () => '0-9').join(',');
+    const whole = await file(source, { request: rangeRequest(`bytes=${repeated}`) });
+    expect(whole.status).toBe(206);
+    expect(whole.headers.get('content-length')).toBe('10');
+  });
+
+  it('sends the whole file for too many ranges', async () => {
+    const source = new Blob(['x'.repeat(1000)]);
+    const ranges = Array.from({ length: 200 }, (_, i) => `${i * 5}-${i * 5 + 1}`).join(',');
+    const response = await file(source, { request: rangeRequest(`bytes=${ranges}`) });
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-length')).toBe('1000');
+  });
+
+  it('handles unsatisfiable and ignored ranges', async () => {
+    const source = new Blob(['0123456789']);
+    const unsatisfiable = await file(source, { request: rangeRequest('bytes=10-') });
+    expect(unsatisfiable.status).toBe(416);
+    expect(unsatisfiable.headers.get('content-range')).toBe('bytes */10');
+
+    expect((await file(source, { request: rangeRequest('items=0-1') })).status).toBe(200);
+    expect((await file(source, { request: rangeRequest('bytes=5-2') })).status).toBe(200);
+
+    const etag = '"v1"';
+    const stale = await file(source, { etag, request: rangeRequest('bytes=0-1', { 'If-Range': '"v0"' }) });
+    expect(stale.status).toBe(200);
+    const fresh = await file(source, { etag, request: rangeRequest('bytes=0-1', { 'If-Range': '"v1"' }) });
+    expect(fresh.status).toBe(206);
+  });
+
+  it('evaluates conditional requests', async () => {
+    const request = new Request('https://example.com/file', { headers: { 'If-None-Match': '"v1"' } });
+    const response = await file(new Blob(['a']), { etag: 'v1', request });
+    expect(response.status).toBe(304);
+    expect(response.headers.get('etag')).toBe('"v1"');
+  });
+});
+
+describe('ndjson', () => {
+  it('streams each item as a line', async () => {
+    async function* rows() {
+      yield { id: 1, at: new Date(0) };
+      yield { id: 2, at: new Date(0) };
+    }
+    const response = ndjson(rows(), { serializer: typedSerializer, headers: { 'X-Export': 'orders' } });
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('application/x-ndjson; charset=utf-8');
+    expect(response.headers.get('x-export')).toBe('orders');
+    const lines = (await response.text()).trim().split('\n');
+    expect(lines.map(line => parse(line))).toEqual([
+      { id: 1, at: new Date(0) },
+      { id: 2, at: new Date(0) },
+    ]);
+  });
+
+  it('reads readable streams', async () => {
+    const source = new ReadableStream({
+      start(controller) {
+        controller.enqueue({ id: 1 });
+        controller.enqueue({ id: 2 });
+        controller.close();
+      },
+    });
+    expect(await ndjson(source).text()).toBe('{"id":1}\n{"id":2}\n');
+  });
+
+  it('sends errors with the error policy', async () => {
+    async function* rows() {
+      yield { id: 1 };
+      throw new Error('connection lost');
+    }
+    const text = await ndjson(rows(), {
+      errorPolicy: { mode: 'production', correlationId: () => 'abc' },
+    }).text();
+    expect(
+      text
+        .trim()
+        .split('\n')
+        .map(line => JSON.parse(line))
+    ).toEqual([
+      { id: 1 },
+      { error: { message: 'Internal Server Error', name: 'Error', correlationId: 'abc', isError: true } },
+    ]);
+  });
+
+  it('only reads items when the client wants them', async () => {
+    let pulled = 0;
+    let finished = false;
+    async function* rows() {
+      try {
+        while (true) {
+          pulled++;
+          yield { padding: 'x'.repeat(1024) };
+        }
+      } finally {
+        finished = true;
+      }
+    }
+    const controller = new AbortController();
+    const response = ndjson(rows(), { signal: controller.signal });
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(pulled).toBeGreaterThan(0);
+    expect(pulled).toBeLessThan(200);
+    controller.abort();
+    await response.text();
+    expect(finished).toBe(true);
+  });
+});
+
+describe('compression', () => {
+  const large = { text: 'remix '.repeat(500) };
+  const requestWith = (acceptEncoding: string, headers: Record<string, string> = {}) =>
+    new Request('https://example.com', { headers: { 'Accept-Encoding': acceptEncoding, ...headers } });
+  const decompress = async (response: Response) => {
+    const zlib = await import('node:zlib');
+    const body = Buffer.from(await response.arrayBuffer());
+    const encoding = response.headers.get('content-encoding');
+    const bytes =
+      encoding === 'br'
+        ? zlib.brotliDecompressSync(body)
+        : encoding === 'gzip'
+        ? zlib.gunzipSync(body)
+        : zlib.inflateSync(body);
+    return JSON.parse(bytes.toString());
+  };
+
+  it('uses the best accepted encoding', async () => {
+    for (const [acceptEncoding, encoding] of [
+      ['gzip, deflate, br', 'gzip'],
+      ['deflate;q=1, gzip;q=0.5', 'deflate'],
+      ['deflate', 'deflate'],
+      ['*', 'gzip'],
+    ]) {
+      const response = await ok(large, { request: requestWith(acceptEncoding), compress: true });
+      expect(response.headers.get('content-encoding')).toBe(encoding);
+      expect(response.headers.get('vary')).toBe('Accept-Encoding');
+      expect(await decompress(response)).toEqual(large);
+    }
+  });
+
+  it('only uses brotli with a brotli compressor', async () => {
+    const brotli = vi.fn(() => new CompressionStream('gzip') as remixResponse.Compressor);
+    const response = await ok(large, { request: requestWith('gzip, br'), compress: { brotli } });
+    expect(response.headers.get('content-encoding')).toBe('br');
+    await response.arrayBuffer();
+    expect(brotli).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops compressing when the body is cancelled', async () => {
+    const response = await ok(large, { request: requestWith('gzip'), compress: true });
+    const reader = response.body!.getReader();
+    await reader.read();
+    await reader.cancel();
+  });
+
+  it('sends small or unaccepted bodies uncompressed', async () => {
+    const small = await ok({ a: 1 }, { request: requestWith('gzip'), compress: true });
+    expect(small.headers.has('content-encoding')).toBe(false);
+    expect(small.headers.get('vary')).toBe('Accept-Encoding');
+    expect(await small.json()).toEqual({ a: 1 });
+
+    const identity = await ok(large, { request: requestWith('identity, br;q=0'), compress: { threshold: 0 } });
+    expect(identity.headers.has('content-encoding')).toBe(false);
+
+    const limited = await ok(large, { request: requestWith('br, gzip'), compress: { encodings: ['gzip'] } });
+    expect(limited.headers.get('content-encoding')).toBe('gzip');
+
+    const notRequested = await ok(large, { request: requestWith('gzip') });
+    expect(notRequested.headers.has('content-encoding')).toBe(false);
+  });
+
+  it('compresses streamed bodies but not deferred data', async () => {
+    const request = requestWith('gzip');
+    const thrown = ok({ text: Promise.resolve('a') }, { request, compress: true });
+    expect(thrown.headers.get('content-encoding')).toBe('gzip');
+    expect(await decompress(thrown)).toEqual({ text: { status: 'fulfilled', value: 'a' } });
+
+    const deferred = ok({ text: Promise.resolve(large.text) }, { request, compress: true, deferred: true });
+    expect(deferred.headers.has('content-encoding')).toBe(false);
+  });
+
+  it('weakens the ETag of compressed responses', async () => {
+    const response = await ok(large, { request: requestWith('gzip'), compress: true, etag: true });
+    const etag = response.headers.get('etag')!;
+    expect(etag).toMatch(/^W\/"/);
+
+    const revalidated = await ok(large, {
+      request: requestWith('gzip', { 'If-None-Match': etag }),
+      compress: true,
+      etag: true,
+    });
+    expect(revalidated.status).toBe(304);
+    expect(revalidated.headers.get('etag')).toBe(etag);
+  });
+});
+
+describe('response schemas', () => {
+  type User = { id: number; name: string };
+  const schema: remixResponse.StandardSchema<unknown, { user: User }> = {
+    '~standard': {
+      version: 1,
+      vendor: 'test',
+      validate: value => {
+        const { id, name } = (value as { user: User }).user;
+        const issues = [];
+        if (typeof id !== 'number') {
+          issues.push({ path: ['user', { key: 'id' }], message: 'Expected number' });
+        }
+        if (typeof name !== 'string') {
+          issues.push({ path: ['user', 'name'], message: 'Expected string' });
+        }
+        return issues.length ? { issues } : { value: { user: { id, name } } };
+      },
+    },
+  };
+  const user = { id: 1, name: 'Ada', passwordHash: 'secret' };
+
+  it('sends the output of the schema', async () => {
+    const response = await ok({ user: Promise.resolve(user) }, { schema, onSchemaMismatch: 'strip' });
+    expect(await response.json()).toEqual({ user: { id: 1, name: 'Ada' } });
+  });
+
+  it('throws a detailed error for mismatches', async () => {
+    const error = await ok({ user: Promise.resolve(user) }, { schema }).then(
+      () => undefined,
+      error => error
+    );
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toBe('ResponseSchemaError');
+    expect(error.message).toBe(
+      'The data for the 200 response does not match the schema:\n  - user.passwordHash: Unknown key'
+    );
+
+    const invalid = await ok({ user: { id: '1', name: 'Ada' } }, { schema }).then(
+      () => undefined,
+      error => error
+    );
+    expect(invalid.issues).toEqual([{ path: ['user', { key: 'id' }], message: 'Expected number' }]);
+    expect(invalid.message).toContain('  - user.id: Expected number');
+  });
+
+  it('logs removed keys and sends the output of the schema', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    try {
+      const response = await ok({ user }, { schema, onSchemaMismatch: 'warn' });
+      expect(await response.json()).toEqual({ user: { id: 1, name: 'Ada' } });
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('user.passwordHash: Unknown key'));
+
+      warn.mockClear();
+      const stripped = await ok({ user }, { schema, onSchemaMismatch: 'strip' });
+      expect(await stripped.json()).toEqual({ user: { id: 1, name: 'Ada' } });
+      expect(warn).not.toHaveBeenCalled();
+    } finally {
+      warn.mockRestore();
+    }
+  });
+
+  it('never sends invalid data', async () => {
+    for (const onSchemaMismatch of ['log', 'warn', 'strip'] as const) {
+      const error = await ok({ user: { id: '1', name: 'Ada' } }, { schema, onSchemaMismatch }).then(
+        () => undefined,
+        error => error
+      );
+      expect(error.name).toBe('ResponseSchemaError');
+    }
+  });
+
+  it('validates thrown and rejected responses', async () => {
+    const thrown = ok({ user }, { schema, onSchemaMismatch: 'strip' });
+    expect(await thrown.json()).toEqual({ user: { status: 'fulfilled', value: { id: 1, name: 'Ada' } } });
+
+    const invalid = ok({ user: { id: '1', name: 'Ada' } }, { schema, onSchemaMismatch: 'strip' });
+    const [invalidUser] = Object.values(await invalid.json()) as any[];
+    expect(invalidUser.status).toBe('rejected');
+    expect(invalidUser.reason.name).toBe('ResponseSchemaError');
+
+    const error = await ok({ user, posts: Promise.reject(new Error('down')) }, { schema }).then(
+      () => undefined,
+      error => error
+    );
+    expect(error.status).toBe(500);
+    const body = await error.json();
+    expect(body.user.status).toBe('rejected');
+    expect(body.user.reason.name).toBe('ResponseSchemaError');
+    expect(JSON.stringify(body)).not.toContain('secret');
+  });
+
+  it('cannot be used with deferred responses', () => {
+    expect(() => ok({ user: Promise.resolve(user) }, { schema, deferred: true })).toThrow(TypeError);
+  });
+
+  it('strips unknown keys in production', async () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    try {
+      const response = await ok({ user }, { schema });
+      expect(await response.json()).toEqual({ user: { id: 1, name: 'Ada' } });
+    } finally {
+      vi.unstubAllEnvs();
+    }
+  });
+});
+
+describe('pagination', () => {
+  const links = (response: Response) =>
+    Object.fromEntries(
+      response.headers
+        .get('link')!
+        .split(', ')
+        .map(link =>
+          link
+            .match(/^<(.+)>; rel="(\w+)"$/)!
+            .slice(1)
+            .reverse()
+        )
+    );
+
+  it('links offset pages', async () => {
+    const request = new Request('https://example.com/posts?sort=new&page=2');
+    const response = await paginated(Promise.resolve(['c', 'd']), { page: 2, perPage: 2, total: 5, baseUrl: request });
+    expect(response.status).toBe(200);
+    expect(response.headers.get('x-total-count')).toBe('5');
+    expect(links(response)).toEqual({
+      first: 'https://example.com/posts?sort=new&page=1&perPage=2',
+      prev: 'https://example.com/posts?sort=new&page=1&perPage=2',
+      next: 'https://example.com/posts?sort=new&page=3&perPage=2',
+      last: 'https://example.com/posts?sort=new&page=3&perPage=2',
+    });
+    expect(await response.json()).toEqual({
+      items: ['c', 'd'],
+      pageInfo: { page: 2, perPage: 2, total: 5, totalPages: 3, hasNextPage: true, hasPreviousPage: true },
+    });
+  });
+
+  it('links the last offset page without a total', async () => {
+    const response = await paginated(['a'], {
+      page: 1,
+      perPage: 10,
+      baseUrl: 'https://example.com/posts',
+      params: { perPage: 'per_page' },
+    });
+    expect(response.headers.has('x-total-count')).toBe(false);
+    expect(links(response)).toEqual({ first: 'https://example.com/posts?page=1&per_page=10' });
+    expect((await response.json()).pageInfo).toEqual({
+      page: 1,
+      perPage: 10,
+      hasNextPage: false,
+      hasPreviousPage: false,
+    });
+  });
+
+  it('links cursor pages', async () => {
+    const response = await paginated(
+      [{ id: 3 }],
+      { cursor: 'b', nextCursor: 'c', prevCursor: 'a', perPage: 1, baseUrl: 'https://example.com/posts?cursor=b' },
+      { headers: { Link: '<https://example.com/docs>; rel="help"' } }
+    );
+    expect(links(response)).toEqual({
+      help: 'https://example.com/docs',
+      first: 'https://example.com/posts?perPage=1',
+      prev: 'https://example.com/posts?cursor=a&perPage=1',
+      next: 'https://example.com/posts?cursor=c&perPage=1',
+    });
+    expect((await response.json()).pageInfo).toEqual({
+      perPage: 1,
+      cursor: 'b',
+      nextCursor: 'c',
+      prevCursor: 'a',
+      hasNextPage: true,
+      hasPreviousPage: true,
+    });
+  });
+
+  it('responds with partial content for a page of a larger collection', async () => {
+    const baseUrl = 'https://example.com/posts';
+    const partial = await paginated(['c', 'd'], { page: 2, perPage: 2, total: 3, baseUrl, partialContent: true });
+    expect(partial.status).toBe(206);
+    expect(partial.headers.get('content-range')).toBe('items 2-2/3');
+    const whole = await paginated(['a'], { page: 1, perPage: 1, total: 1, baseUrl, partialContent: true });
+    expect(whole.status).toBe(200);
+    expect(whole.headers.has('content-range')).toBe(false);
+    const unknown = await paginated(['a'], { page: 1, perPage: 1, hasNextPage: true, baseUrl, partialContent: true });
+    expect(unknown.status).toBe(200);
+    const cursor = await paginated(['a'], { nextCursor: 'b', perPage: 1, total: 2, baseUrl, partialContent: true });
+    expect(cursor.status).toBe(200);
+  });
+
+  it('rejects pages that are not positive integers', () => {
+    const baseUrl = 'https://example.com/posts';
+    expect(() => paginated([], { page: 1, perPage: 0, baseUrl })).toThrow(RangeError);
+    expect(() => paginated([], { page: 1.5, perPage: 20, baseUrl })).toThrow(RangeError);
+    expect(() => paginated([], { page: NaN, perPage: 20, baseUrl })).toThrow(RangeError);
+    expect(() => paginated([], { cursor: 'a', perPage: -1, baseUrl })).toThrow(RangeError);
+  });
+});
+
+describe('rate limits', () => {
+  it('sends Retry-After as seconds or a date', async () => {
+    const seconds = await tooManyRequests({}, { retryAfter: 1.2 });
+    expect(seconds.status).toBe(429);
+    expect(seconds.headers.get('retry-after')).toBe('2');
+
+    const date = new Date(Date.UTC(2030, 0, 1));
+    const response = await serviceUnavailable({}, { retryAfter: date });
+    expect(response.headers.get('retry-after')).toBe('Tue, 01 Jan 2030 00:00:00 GMT');
+  });
+
+  it('sends the RateLimit headers', async () => {
+    const separate = await ok({}, { rateLimit: { limit: 100, remaining: 42, reset: 30, window: 60 } });
+    expect(separate.headers.get('ratelimit-limit')).toBe('100');
+    expect(separate.headers.get('ratelimit-remaining')).toBe('42');
+    expect(separate.headers.get('ratelimit-reset')).toBe('30');
+    expect(separate.headers.get('ratelimit-policy')).toBe('100;w=60');
+
+    const combined = await ok(
+      {},
+      { rateLimit: { limit: 100, remaining: 0, reset: new Date(Date.now() + 9500), window: 60, format: 'combined' } }
+    );
+    expect(combined.headers.get('ratelimit')).toBe('"default";r=0;t=10');
+    expect(combined.headers.get('ratelimit-policy')).toBe('"default";q=100;w=60');
+    expect(combined.headers.has('ratelimit-limit')).toBe(false);
+  });
+
+  it('limits requests with a token bucket', () => {
+    let time = 0;
+    const limiter = createRateLimiter({ limit: 2, window: 10, now: () => time });
+    expect(limiter.consume('a')).toEqual({
+      allowed: true,
+      rateLimit: { limit: 2, remaining: 1, reset: 5, window: 10 },
+    });
+    expect(limiter.consume('a').allowed).toBe(true);
+    expect(limiter.consume('a')).toEqual({
+      allowed: false,
+      rateLimit: { limit: 2, remaining: 0, reset: 10, window: 10 },
+      retryAfter: 5,
+    });
+    expect(limiter.consume('b').allowed).toBe(true);
+
+    time = 5000;
+    expect(limiter.consume('a').rateLimit.remaining).toBe(0);
+    expect(limiter.consume('a').allowed).toBe(false);
+    limiter.reset('a');
+    expect(limiter.consume('a').allowed).toBe(true);
+  });
+
+  it('forgets refilled and least recently used keys', () => {
+    let time = 0;
+    const limiter = createRateLimiter({ limit: 2, window: 10, maxKeys: 2, now: () => time });
+    limiter.consume('a');
+    limiter.consume('a');
+    limiter.consume('b');
+    limiter.consume('a');
+    limiter.consume('c');
+    expect(limiter.consume('a').allowed).toBe(false);
+    // `b` was used least recently so it starts with a full bucket.
+    expect(limiter.consume('b').rateLimit.remaining).toBe(1);
+
+    const swept = createRateLimiter({ limit: 1, window: 1, now: () => time });
+    swept.consume('a');
+    time += 1000;
+    const remove = vi.spyOn(Map.prototype, 'delete');
+    try {
+      swept.consume('b');
+      expect(remove).toHaveBeenCalledWith('a');
+    } finally {
+      remove.mockRestore();
+    }
+  });
+
+  it('rejects limits and windows that are not positive', () => {
+    expect(() => createRateLimiter({ limit: 10, window: 0 })).toThrow(RangeError);
+    expect(() => createRateLimiter({ limit: 0, window: 60 })).toThrow(RangeError);
+    expect(() => createRateLimiter({ limit: -1, window: 60 })).toThrow(RangeError);
+    expect(() => createRateLimiter({ limit: 10, window: Infinity })).toThrow(RangeError);
+    expect(() => createRateLimiter({ limit: NaN, window: 60 })).toThrow(RangeError);
+  });
+
+  it('creates responses from the limiter', async () => {
+    const limiter = createRateLimiter({ limit: 1, window: 60, now: () => 0 });
+    limiter.consume('a');
+    const { rateLimit, retryAfter } = limiter.consume('a');
+    const response = await tooManyRequests({}, { rateLimit, retryAfter });
+    expect(response.headers.get('retry-after')).toBe('60');
+    expect(response.headers.get('ratelimit-remaining')).toBe('0');
+  });
+});
+
+describe('timings', () => {
+  const delay = <T>(ms: number, value: T) => new Promise<T>(resolve => setTimeout(() => resolve(value), ms));
+
+  it('sends a Server-Timing header for each key', async () => {
+    const response = await ok(
+      { user: delay(20, 'a'), 'recent posts': Promise.resolve([]), static: 1 },
+      { timing: true, headers: { 'Server-Timing': 'db;dur=1' } }
+    );
+    const timing = response.headers.get('server-timing')!;
+    expect(timing).toMatch(/^db;dur=1, user;dur=\d+\.\d, recent_posts;dur=\d+\.\d;desc="recent posts"$/);
+    expect(Number(timing.match(/user;dur=([\d.]+)/)![1])).toBeGreaterThanOrEqual(15);
+  });
+
+  it('sends the timings with a rejected response', async () => {
+    const response = await ok({ a: Promise.reject(new Error('a')) }, { timing: true }).then(
+      () => undefined,
+      response => response
+    );
+    expect(response.status).toBe(500);
+    expect(response.headers.get('server-timing')).toMatch(/^a;dur=\d+\.\d$/);
+  });
+
+  it('calls onSettled with each result', async () => {
+    const settled: [string, unknown][] = [];
+    const error = new Error('b');
+    await ok(
+      { a: delay(5, 'a'), b: Promise.reject(error).then(() => 'b') },
+      { onSettled: (key, { duration, ...result }) => settled.push([key, { ...result, timed: duration >= 0 }]) }
+    ).then(
+      () => undefined,
+      () => undefined
+    );
+    expect(settled).toEqual([
+      ['b', { status: 'rejected', reason: error, timed: true }],
+      ['a', { status: 'fulfilled', value: 'a', timed: true }],
+    ]);
+  });
+
+  it('only sends the timings of the allowed keys', async () => {
+    const response = await ok({ user: Promise.resolve('a'), secret: Promise.resolve('b') }, { timing: ['user'] });
+    expect(response.headers.get('server-timing')).toMatch(/^user;dur=\d+\.\d$/);
+
+    const none = await ok({ secret: Promise.resolve('b') }, { timing: [] });
+    expect(none.headers.has('server-timing')).toBe(false);
+  });
+
+  it('logs errors thrown by onSettled', async () => {
+    const log = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const error = new Error('hook');
+    try {
+      const response = await ok(
+        { a: Promise.resolve('a') },
+        {
+          onSettled: () => {
+            throw error;
+          },
+        }
+      );
+      expect(await response.json()).toEqual({ a: 'a' });
+      expect(log).toHaveBeenCalledWith(error);
+    } finally {
+      log.mockRestore();
+    }
+  });
+
+  it('does not send timings unless asked', async () => {
+    const response = await ok({ a: Promise.resolve('a') });
+    expect(response.headers.has('server-timing')).toBe(false);
+  });
+});
+
 describe('status codes', () => {
-  it.each([
+  const bodyStatuses: [string, number][] = [
     // 2XX
     ['ok', 200],
     ['created', 201],
-    ['resetContent', 205],
+    ['accepted', 202],
+    ['nonAuthoritativeInformation', 203],
     ['partialContent', 206],
+    ['multiStatus', 207],
+    ['alreadyReported', 208],
+    ['imUsed', 226],
+
+    // 3XX
+    ['multipleChoices', 300],
 
     // 4XX
     ['badRequest', 400],
     ['unauthorized', 401],
+    ['paymentRequired', 402],
     ['forbidden', 403],
     ['notFound', 404],
     ['methodNotAllowed', 405],
     ['notAcceptable', 406],
+    ['proxyAuthenticationRequired', 407],
+    ['requestTimeout', 408],
     ['conflict', 409],
     ['gone', 410],
+    ['lengthRequired', 411],
     ['preconditionFailed', 412],
+    ['contentTooLarge', 413],
+    ['uriTooLong', 414],
+    ['unsupportedMediaType', 415],
+    ['rangeNotSatisfiable', 416],
     ['expectationFailed', 417],
     ['teapot', 418],
+    ['misdirectedRequest', 421],
+    ['unprocessableEntity', 422],
+    ['locked', 423],
+    ['failedDependency', 424],
+    ['tooEarly', 425],
+    ['upgradeRequired', 426],
     ['preconditionRequired', 428],
     ['tooManyRequests', 429],
+    ['requestHeaderFieldsTooLarge', 431],
+    ['unavailableForLegalReasons', 451],
+
     // 5XX
     ['serverError', 500],
     ['notImplemented', 501],
+    ['badGateway', 502],
     ['serviceUnavailable', 503],
-  ])('%s should have a status code of %i', (methodName, status) => {
+    ['gatewayTimeout', 504],
+    ['httpVersionNotSupported', 505],
+    ['variantAlsoNegotiates', 506],
+    ['insufficientStorage', 507],
+    ['loopDetected', 508],
+    ['notExtended', 510],
+    ['networkAuthenticationRequired', 511],
+  ];
+
+  it.each(bodyStatuses)('%s should have a status code of %i', (methodName, status) => {
     const response = remixResponse[methodName]({});
     expect(response.status).toBe(status);
   });
 
+  it.each(bodyStatuses)('%s should be the same as status(%i)', async (methodName, status) => {
+    const response = await remixResponse.status(status)({ a: Promise.resolve('a') });
+    expect(response.status).toBe(status);
+    expect(await response.json()).toEqual({ a: 'a' });
+  });
+
   it.each([
     ['movedPermanently', 301],
     ['found', 302],
     ['seeOther', 303],
-    ['notModified', 304],
     ['temporaryRedirect', 307],
     ['permanentRedirect', 308],
   ])('%s redirect should have a status code of %i', (methodName, status) => {
@@ -128,4 +1872,29 @@ describe('status codes', () => {
     expect(response.status).toBe(204);
     expect(response.body).toBe(null);
   });
+
+  it('status returns the helper for redirect and empty statuses', () => {
+    const redirect = remixResponse.status(303)('https://www.example.com');
+    expect(redirect.status).toBe(303);
+    expect(redirect.headers.get('location')).toBe('https://www.example.com');
+
+    const empty = remixResponse.status(204)();
+    expect(empty.status).toBe(204);
+    expect(empty.body).toBe(null);
+  });
+
+  it.each([
+    ['resetContent', 205],
+    ['notModified', 304],
+  ])('%s should have no body like status(%i)', (methodName, status) => {
+    for (const response of [remixResponse[methodName](), remixResponse.status(status)()]) {
+      expect(response.status).toBe(status);
+      expect(response.body).toBe(null);
+      expect(response.headers.has('location')).toBe(false);
+    }
+  });
+
+  it('status throws for unsupported status codes', () => {
+    expect(() => remixResponse.status(199 as any)).toThrow(RangeError);
+  });
 });
@@ -0,0 +1,71 @@
+import { ok } from '../src/index';
+import { brotli, download, file } from '../src/node';
+import { expect, describe, it } from 'vitest';
+import { brotliDecompressSync } from 'node:zlib';
+
+describe('brotli', () => {
+  it('compresses responses with zlib', async () => {
+    const data = { text: 'remix '.repeat(500) };
+    const request = new Request('https://example.com', { headers: { 'Accept-Encoding': 'gzip, br' } });
+    const response = await ok(data, { request, compress: { brotli } });
+    expect(response.headers.get('content-encoding')).toBe('br');
+    const body = Buffer.from(await response.arrayBuffer());
+    expect(JSON.parse(brotliDecompressSync(body).toString())).toEqual(data);
+  });
+});
+
+describe('files', () => {
+  const withFile = async (contents: string, test: (path: string) => Promise<void>) => {
+    const { mkdtemp, writeFile, rm } = await import('node:fs/promises');
+    const { tmpdir } = await import('node:os');
+    const { join } = await import('node:path');
+    const dir = await mkdtemp(join(tmpdir(), 'remix-response-'));
+    try {
+      const path = join(dir, 'notes.txt');
+      await writeFile(path, contents);
+      await test(path);
+    } finally {
+      await rm(dir, { recursive: true });
+    }
+  };
+  const rangeRequest = (range: string) => new Request('https://example.com/file', { headers: { Range: range } });
+
+  it('sends files from a path', async () => {
+    await withFile('hello world', async path => {
+      const response = await file(path);
+      expect(response.status).toBe(200);
+      expect(response.headers.get('content-type')).toBe('text/plain; charset=utf-8');
+      expect(response.headers.get('content-length')).toBe('11');
+      expect(response.headers.get('accept-ranges')).toBe('bytes');
+      expect(response.headers.get('content-disposition')).toBe('inline; filename="notes.txt"');
+      expect(response.headers.get('last-modified')).toBeTruthy();
+      expect(await response.text()).toBe('hello world');
+
+      const partial = await file(path, { request: rangeRequest('bytes=6-') });
+      expect(partial.status).toBe(206);
+      expect(partial.headers.get('content-range')).toBe('bytes 6-10/11');
+      expect(partial.headers.get('content-length')).toBe('5');
+      expect(await partial.text()).toBe('world');
+    });
+  });
+
+  it('streams multiple ranges from a path', async () => {
+    await withFile('hello world', async path => {
+      const response = await file(path, { request: rangeRequest('bytes=0-4, 6-') });
+      expect(response.status).toBe(206);
+      const body = await response.text();
+      expect(response.headers.get('content-length')).toBe(String(body.length));
+      expect(body).toContain('Content-Range: bytes 0-4/11\r\n\r\nhello\r\n');
+      expect(body).toContain('Content-Range: bytes 6-10/11\r\n\r\nworld\r\n');
+    });
+  });
+
+  it('sends downloads from a path and other sources', async () => {
+    await withFile('a,b', async path => {
+      const response = await download(path, { filename: 'export.csv' });
+      expect(response.headers.get('content-disposition')).toBe('attachment; filename="export.csv"');
+      expect(await response.text()).toBe('a,b');
+    });
+    expect(await (await file(new Blob(['blob']))).text()).toBe('blob');
+  });
+});
@@ -1,3 +1,9 @@
-import { Response } from '@remix-run/web-fetch';
+import { Blob, Headers, ReadableStream, Request, Response } from '@remix-run/web-fetch';
 
+// Install the same globals as Remix's `installGlobals` so the library
+// is tested against the web-fetch polyfill rather than Node's streams.
+globalThis.Blob = Blob;
+globalThis.Headers = Headers;
+globalThis.ReadableStream = ReadableStream;
+globalThis.Request = Request;
 globalThis.Response = Response;